@@ -0,0 +1,86 @@
+import type { ActiveEvent, SafeCircleSnapshot } from "@tck/shared/src/protocol";
+
+const WELL_RINGS = 4;
+const WELL_RING_SPEED = 0.6;
+
+/** Per-event decoration on top of the safe zones. Drawn in world space. */
+export const drawArenaEffects = (
+  ctx: CanvasRenderingContext2D,
+  event: ActiveEvent | null,
+  circles: SafeCircleSnapshot[],
+  now: number
+) => {
+  if (!event) return;
+  ctx.save();
+  if (event.type === "SPLIT" && circles.length > 1) {
+    ctx.fillStyle = "rgba(255, 91, 189, 0.07)";
+    for (const circle of circles) {
+      ctx.beginPath();
+      ctx.arc(circle.x, circle.y, circle.radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.strokeStyle = "rgba(255, 91, 189, 0.6)";
+    ctx.setLineDash([6, 10]);
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(circles[0].x, circles[0].y);
+    for (const circle of circles.slice(1)) ctx.lineTo(circle.x, circle.y);
+    ctx.stroke();
+  } else if (event.type === "WELL") {
+    // Rings flow inwards for a pull and outwards for a push.
+    const pull = event.strength > 0;
+    const phase = ((now / 1000) * WELL_RING_SPEED) % 1;
+    ctx.strokeStyle = pull ? "rgba(91, 255, 189, 0.5)" : "rgba(255, 140, 42, 0.5)";
+    ctx.lineWidth = 2;
+    for (const circle of circles) {
+      for (let i = 0; i < WELL_RINGS; i += 1) {
+        const step = (i / WELL_RINGS + (pull ? 1 - phase : phase)) % 1;
+        ctx.globalAlpha = Math.sin(step * Math.PI);
+        ctx.beginPath();
+        ctx.arc(circle.x, circle.y, circle.radius * step, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+  }
+  ctx.restore();
+};
+
+const drawBorder = (
+  ctx: CanvasRenderingContext2D,
+  viewport: { width: number; height: number },
+  color: string,
+  alpha: number
+) => {
+  const edge = Math.min(viewport.width, viewport.height) * 0.12;
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = edge;
+  ctx.strokeRect(0, 0, viewport.width, viewport.height);
+  ctx.restore();
+};
+
+/** Full-screen cues for events that change how players move. Drawn in screen space. */
+export const drawArenaOverlay = (
+  ctx: CanvasRenderingContext2D,
+  event: ActiveEvent | null,
+  viewport: { width: number; height: number },
+  now: number
+) => {
+  if (!event) return;
+  let label = "";
+  if (event.type === "INVERT") {
+    drawBorder(ctx, viewport, "#9b5bff", 0.35);
+    label = "⇄ CONTROLS INVERTED ⇄";
+  } else if (event.type === "FRENZY") {
+    drawBorder(ctx, viewport, "#ff1b1b", 0.2 + 0.15 * Math.sin(now / 90));
+    label = "FRENZY";
+  }
+  if (!label) return;
+  ctx.save();
+  ctx.font = "24px Trebuchet MS";
+  ctx.textAlign = "center";
+  ctx.fillStyle = event.type === "INVERT" ? "#c9a8ff" : "#ff8c8c";
+  ctx.fillText(label, viewport.width * 0.5, 72);
+  ctx.restore();
+};
@@ -0,0 +1,108 @@
+import type { WorldConfig } from "@tck/shared/src/protocol";
+
+const CAMERA_SMOOTHING = 8;
+const OVERVIEW_PADDING = 0.92;
+
+/**
+ * `self` tracks the local player; `follow` watches `targetId` (or the first
+ * alive player when that one is gone); `overview` fits the whole world.
+ */
+export type CameraMode = "self" | "follow" | "overview";
+
+export type Camera = {
+  mode: CameraMode;
+  targetId: string | null;
+  x: number;
+  y: number;
+  zoom: number;
+  initialized: boolean;
+};
+
+type Candidate = { id: string; x: number; y: number; alive: boolean };
+
+export const createCamera = (): Camera => ({
+  mode: "self",
+  targetId: null,
+  x: 0,
+  y: 0,
+  zoom: 1,
+  initialized: false
+});
+
+export const cycleCameraTarget = (camera: Camera, candidates: Candidate[], direction: 1 | -1) => {
+  const alive = candidates.filter((candidate) => candidate.alive);
+  if (alive.length === 0) {
+    camera.mode = "overview";
+    return;
+  }
+  const index = alive.findIndex((candidate) => candidate.id === camera.targetId);
+  const next = index < 0 ? 0 : (index + direction + alive.length) % alive.length;
+  camera.mode = "follow";
+  camera.targetId = alive[next].id;
+};
+
+export const toggleOverview = (camera: Camera) => {
+  camera.mode = camera.mode === "overview" ? "follow" : "overview";
+};
+
+/**
+ * Moves the camera towards its mode's target. Returns the followed player id
+ * when spectating someone, so the renderer can highlight them.
+ */
+export const updateCamera = (
+  camera: Camera,
+  options: {
+    self: Candidate | null;
+    spectating: boolean;
+    candidates: Candidate[];
+    world: WorldConfig;
+    viewport: { width: number; height: number };
+    frameDt: number;
+  }
+) => {
+  const { self, spectating, candidates, world, viewport } = options;
+  if (!spectating && camera.mode !== "self") {
+    camera.mode = "self";
+  } else if (spectating && camera.mode === "self") {
+    camera.mode = "follow";
+  }
+
+  let targetX = world.width * 0.5;
+  let targetY = world.height * 0.5;
+  let targetZoom = 1;
+  let followed: string | null = null;
+
+  if (camera.mode === "self" && self) {
+    targetX = self.x;
+    targetY = self.y;
+  } else if (camera.mode === "follow") {
+    const target =
+      candidates.find((candidate) => candidate.id === camera.targetId && candidate.alive) ??
+      candidates.find((candidate) => candidate.alive);
+    if (target) {
+      camera.targetId = target.id;
+      followed = target.id;
+      targetX = target.x;
+      targetY = target.y;
+    } else {
+      targetZoom = Math.min(viewport.width / world.width, viewport.height / world.height) * OVERVIEW_PADDING;
+    }
+  } else if (camera.mode === "overview") {
+    targetZoom = Math.min(viewport.width / world.width, viewport.height / world.height) * OVERVIEW_PADDING;
+  }
+
+  // The local player is drawn from prediction, so lagging behind it would feel sluggish.
+  if (!camera.initialized || camera.mode === "self") {
+    camera.x = targetX;
+    camera.y = targetY;
+    camera.zoom = targetZoom;
+    camera.initialized = true;
+    return followed;
+  }
+
+  const blend = 1 - Math.exp(-CAMERA_SMOOTHING * options.frameDt);
+  camera.x += (targetX - camera.x) * blend;
+  camera.y += (targetY - camera.y) * blend;
+  camera.zoom += (targetZoom - camera.zoom) * blend;
+  return followed;
+};
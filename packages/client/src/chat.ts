@@ -0,0 +1,119 @@
+import type { EmoteId } from "@tck/shared/src/protocol";
+import { EMOTES } from "@tck/shared/src/chat";
+
+const BUBBLE_MS = 2400;
+const MAX_BUBBLES = 12;
+// Longer chat lines are cut in the bubble; the chat log keeps them whole.
+const BUBBLE_CHARS = 32;
+const MAX_LOG_LINES = 50;
+const WHEEL_RADIUS = 130;
+
+export type Bubble = { playerId: string; text: string; start: number };
+
+/** Emotes in number-key order: `1` sends the first. */
+export const EMOTE_KEYS = Object.keys(EMOTES) as EmoteId[];
+
+/** Shows `text` above a player; a new line replaces whatever they said before. */
+export const pushBubble = (bubbles: Bubble[], playerId: string, text: string, now: number) => {
+  const previous = bubbles.findIndex((bubble) => bubble.playerId === playerId);
+  if (previous >= 0) bubbles.splice(previous, 1);
+  const shown = text.length > BUBBLE_CHARS ? `${text.slice(0, BUBBLE_CHARS - 1)}…` : text;
+  bubbles.push({ playerId, text: shown, start: now });
+  if (bubbles.length > MAX_BUBBLES) bubbles.shift();
+};
+
+export const pruneBubbles = (bubbles: Bubble[], now: number) =>
+  bubbles.filter((bubble) => now - bubble.start < BUBBLE_MS);
+
+const drawRoundRect = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+) => {
+  const r = Math.min(radius, width / 2, height / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.lineTo(x + width - r, y);
+  ctx.quadraticCurveTo(x + width, y, x + width, y + r);
+  ctx.lineTo(x + width, y + height - r);
+  ctx.quadraticCurveTo(x + width, y + height, x + width - r, y + height);
+  ctx.lineTo(x + r, y + height);
+  ctx.quadraticCurveTo(x, y + height, x, y + height - r);
+  ctx.lineTo(x, y + r);
+  ctx.quadraticCurveTo(x, y, x + r, y);
+  ctx.closePath();
+};
+
+/** Bubbles follow their speaker in world space; anyone without a body right now is skipped. */
+export const drawBubbles = (
+  ctx: CanvasRenderingContext2D,
+  bubbles: Bubble[],
+  players: Array<{ id: string; x: number; y: number; radius: number }>,
+  now: number
+) => {
+  ctx.save();
+  ctx.font = "12px Trebuchet MS";
+  ctx.textAlign = "center";
+  for (const bubble of bubbles) {
+    const player = players.find((candidate) => candidate.id === bubble.playerId);
+    if (!player) continue;
+    const life = Math.min(1, (now - bubble.start) / BUBBLE_MS);
+    const scale = 1 + Math.sin(Math.min(1, life * 4) * Math.PI) * 0.18;
+    const width = Math.max(60, ctx.measureText(bubble.text).width + 20);
+    ctx.save();
+    ctx.translate(player.x, player.y - player.radius - 22 - life * 10);
+    ctx.scale(scale, scale);
+    ctx.globalAlpha = Math.min(1, (1 - life) * 4);
+    ctx.fillStyle = "rgba(20, 24, 35, 0.92)";
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.4)";
+    drawRoundRect(ctx, -width / 2, -24, width, 30, 8);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = "#f7ff5b";
+    ctx.fillText(bubble.text, 0, -5);
+    ctx.restore();
+  }
+  ctx.restore();
+};
+
+/** Adds a line to the chat log, dropping the oldest past the limit. */
+export const appendChatLine = (log: HTMLUListElement, nickname: string, text: string) => {
+  const item = document.createElement("li");
+  const name = document.createElement("strong");
+  name.textContent = `${nickname}: `;
+  item.append(name, text);
+  log.append(item);
+  while (log.childElementCount > MAX_LOG_LINES) log.firstElementChild?.remove();
+  log.scrollTop = log.scrollHeight;
+};
+
+/** The touch wheel: a button that fans the emotes out in a half circle to its left. */
+export const createEmoteWheel = (container: HTMLElement, onPick: (emote: EmoteId) => void) => {
+  const options = EMOTE_KEYS.map((emote, index) => {
+    const angle = Math.PI / 2 + (index / (EMOTE_KEYS.length - 1)) * Math.PI;
+    const x = Math.cos(angle) * WHEEL_RADIUS;
+    const y = -Math.sin(angle) * WHEEL_RADIUS;
+    const button = document.createElement("button");
+    button.className = "emote-option";
+    button.textContent = EMOTES[emote];
+    button.hidden = true;
+    button.style.transform = `translate(calc(-50% + ${x}px), calc(-50% + ${y}px))`;
+    button.addEventListener("click", () => {
+      onPick(emote);
+      setOpen(false);
+    });
+    return button;
+  });
+  const toggle = document.createElement("button");
+  toggle.className = "emote-toggle";
+  toggle.textContent = "☺";
+  toggle.title = "Emotes";
+  const setOpen = (open: boolean) => {
+    for (const option of options) option.hidden = !open;
+  };
+  toggle.addEventListener("click", () => setOpen(options[0].hidden));
+  container.append(...options, toggle);
+};
@@ -0,0 +1,66 @@
+// Round trips kept for the offset; the fastest one is the least skewed by queueing.
+const MAX_SAMPLES = 8;
+const RTT_SMOOTHING = 0.25;
+const LAG_SMOOTHING = 0.05;
+const JITTER_SMOOTHING = 0.1;
+// The buffer covers one snapshot gap plus this many mean deviations of arrival time.
+const JITTER_MARGIN = 2.5;
+const MIN_BUFFER_MS = 40;
+const MAX_BUFFER_MS = 400;
+
+/**
+ * Where the server clock stands relative to `performance.now()`, and how
+ * unevenly snapshots arrive against it.
+ */
+export type ServerClock = {
+  samples: Array<{ rttMs: number; offsetMs: number }>;
+  /** Server clock minus client clock. */
+  offsetMs: number;
+  /** Smoothed round trip, null before the first `pong`. */
+  rttMs: number | null;
+  /** Smoothed time from a snapshot's `serverTime` to its arrival, on the server clock. */
+  lagMs: number | null;
+  /** Mean deviation of single arrivals from `lagMs`. */
+  jitterMs: number;
+};
+
+export const createServerClock = (): ServerClock => ({
+  samples: [],
+  offsetMs: 0,
+  rttMs: null,
+  lagMs: null,
+  jitterMs: 0
+});
+
+export const toServerTime = (clock: ServerClock, now: number) => now + clock.offsetMs;
+
+/** Takes in a `pong` for a `ping` sent at `clientTime`, received at `now`. */
+export const recordPong = (clock: ServerClock, clientTime: number, serverTime: number, now: number) => {
+  const rttMs = Math.max(0, now - clientTime);
+  clock.rttMs = clock.rttMs === null ? rttMs : clock.rttMs + (rttMs - clock.rttMs) * RTT_SMOOTHING;
+  clock.samples.push({ rttMs, offsetMs: serverTime + rttMs / 2 - now });
+  if (clock.samples.length > MAX_SAMPLES) clock.samples.shift();
+  const best = clock.samples.reduce((a, b) => (b.rttMs < a.rttMs ? b : a));
+  // Arrival lag is measured on the server clock, so it moves with the offset instead of relearning.
+  if (clock.lagMs !== null) clock.lagMs += best.offsetMs - clock.offsetMs;
+  clock.offsetMs = best.offsetMs;
+};
+
+/** Measures how late a snapshot taken at `serverTime` arrived at `now`. */
+export const recordArrival = (clock: ServerClock, serverTime: number, now: number) => {
+  const lagMs = toServerTime(clock, now) - serverTime;
+  if (clock.lagMs === null) {
+    clock.lagMs = lagMs;
+    return;
+  }
+  clock.jitterMs += (Math.abs(lagMs - clock.lagMs) - clock.jitterMs) * JITTER_SMOOTHING;
+  clock.lagMs += (lagMs - clock.lagMs) * LAG_SMOOTHING;
+};
+
+/** How far behind the newest snapshot to render, so late ones still land in time. */
+export const getInterpolationBuffer = (clock: ServerClock, snapshotIntervalMs: number) =>
+  Math.min(MAX_BUFFER_MS, Math.max(MIN_BUFFER_MS, snapshotIntervalMs + clock.jitterMs * JITTER_MARGIN));
+
+/** The server time to draw at `now`: the usual arrival lag plus the jitter buffer in the past. */
+export const getRenderTime = (clock: ServerClock, now: number, snapshotIntervalMs: number) =>
+  toServerTime(clock, now) - (clock.lagMs ?? 0) - getInterpolationBuffer(clock, snapshotIntervalMs);
@@ -0,0 +1,57 @@
+const FEED_MS = 5000;
+const FEED_FADE_MS = 600;
+const MAX_ENTRIES = 5;
+const LINE_HEIGHT = 24;
+
+export type KillFeedEntry = {
+  victim: string;
+  /** Null when nobody touched the victim before they fell. */
+  killer: string | null;
+  assists: number;
+  /** The local player took part, as victim, killer or assist. */
+  involved: boolean;
+  start: number;
+};
+
+/** Adds a knockout, dropping the oldest line once the feed is full. */
+export const pushKillFeed = (feed: KillFeedEntry[], entry: KillFeedEntry) => {
+  feed.push(entry);
+  if (feed.length > MAX_ENTRIES) feed.shift();
+};
+
+export const pruneKillFeed = (feed: KillFeedEntry[], now: number) =>
+  feed.filter((entry) => now - entry.start < FEED_MS);
+
+const describe = (entry: KillFeedEntry) => {
+  if (!entry.killer) return `${entry.victim} fell out`;
+  const assists = entry.assists > 0 ? ` (+${entry.assists})` : "";
+  return `${entry.killer}${assists} ✖ ${entry.victim}`;
+};
+
+/** Recent knockouts, newest at the bottom, right-aligned below `top`. Drawn in screen space. */
+export const drawKillFeed = (
+  ctx: CanvasRenderingContext2D,
+  feed: KillFeedEntry[],
+  now: number,
+  viewport: { width: number },
+  top: number
+) => {
+  ctx.save();
+  ctx.font = "15px Trebuchet MS";
+  ctx.textAlign = "right";
+  ctx.textBaseline = "middle";
+  feed.forEach((entry, index) => {
+    const left = FEED_MS - (now - entry.start);
+    if (left <= 0) return;
+    const text = describe(entry);
+    const width = ctx.measureText(text).width + 20;
+    const x = viewport.width - 16;
+    const y = top + index * LINE_HEIGHT;
+    ctx.globalAlpha = Math.min(1, left / FEED_FADE_MS);
+    ctx.fillStyle = entry.involved ? "rgba(120, 24, 24, 0.8)" : "rgba(11, 17, 24, 0.7)";
+    ctx.fillRect(x - width, y - LINE_HEIGHT * 0.5 + 2, width, LINE_HEIGHT - 4);
+    ctx.fillStyle = entry.killer ? "#f5f5f5" : "#c9c9c9";
+    ctx.fillText(text, x - 10, y);
+  });
+  ctx.restore();
+};
@@ -1,23 +1,176 @@
 ﻿import type {
+  ArenaMap,
   ClientMessage,
   PlayerInput,
+  PlayerSnapshot,
   ServerMessage,
   SafeCircleSnapshot,
   WorldConfig,
-  ActiveEvent
+  ActiveEvent,
+  BotDifficulty,
+  EmoteId,
+  EventPolicy,
+  FriendlyPush,
+  IncomingEvent,
+  PickupSnapshot,
+  PickupType,
+  RoomRules,
+  RulesOverrides,
+  RulesPreset,
+  SnapshotEncoding
 } from "@tck/shared/src/protocol";
+import {
+  createPredictor,
+  getPredictedPosition,
+  predictInput,
+  reconcile,
+  resetPredictor
+} from "./prediction";
+import {
+  REPLAY_SPEEDS,
+  advanceReplay,
+  createReplayViewer,
+  getReplayFrame,
+  seekReplay,
+  type ReplayStep,
+  type ReplayViewer
+} from "./replay";
+import { EMOTES, MAX_CHAT_LENGTH } from "@tck/shared/src/chat";
+import { getArenaModifiers } from "@tck/shared/src/events";
+import { createOpenMap } from "@tck/shared/src/maps";
+import { parseReplay } from "@tck/shared/src/replay";
+import { RULE_PRESETS } from "@tck/shared/src/rules";
+import { createSnapshotDecoder, decodeSnapshot } from "@tck/shared/src/snapshotCodec";
+import { parseServerMessage } from "@tck/shared/src/validation";
+import { drawArenaEffects, drawArenaOverlay } from "./arenaEffects";
+import { createCamera, cycleCameraTarget, toggleOverview, updateCamera } from "./camera";
+import { createServerClock, getRenderTime, recordArrival, recordPong } from "./clock";
+import {
+  EMOTE_KEYS,
+  appendChatLine,
+  createEmoteWheel,
+  drawBubbles,
+  pruneBubbles,
+  pushBubble,
+  type Bubble
+} from "./chat";
+import {
+  drawEffectTimers,
+  drawPickupFlashes,
+  drawPickups,
+  drawStatusEffects,
+  isFlashDone,
+  type PickupFlash
+} from "./pickups";
+import { drawKillFeed, pruneKillFeed, pushKillFeed, type KillFeedEntry } from "./killFeed";
+import { drawMap } from "./mapView";
+import { loadProfileToken, renderLeaderboard, saveProfileToken } from "./profile";
+import { createRoomBrowser, renderRoomList, startRoomBrowser, stopRoomBrowser } from "./roomBrowser";
+import { drawStandings } from "./standings";
+import { getTeamTotals, teamColor, teamName } from "./teams";
+import {
+  clearTelegraph,
+  createTelegraph,
+  drawTelegraph,
+  drawTelegraphArrow,
+  type Telegraph
+} from "./telegraph";
 
 const canvas = document.querySelector<HTMLCanvasElement>("#game");
 const lobby = document.querySelector<HTMLDivElement>("#lobby");
 const roomInput = document.querySelector<HTMLInputElement>("#room");
+const passwordInput = document.querySelector<HTMLInputElement>("#password");
 const nicknameInput = document.querySelector<HTMLInputElement>("#nickname");
 const joinButton = document.querySelector<HTMLButtonElement>("#join");
+const createButton = document.querySelector<HTMLButtonElement>("#create");
+const quickPlayButton = document.querySelector<HTMLButtonElement>("#quickPlay");
+const roomList = document.querySelector<HTMLUListElement>("#roomList");
 const statusLabel = document.querySelector<HTMLDivElement>("#status");
 const hud = document.querySelector<HTMLDivElement>("#hud");
+const joinPanel = document.querySelector<HTMLDivElement>("#joinPanel");
+const roomPanel = document.querySelector<HTMLDivElement>("#roomPanel");
+const roomTitle = document.querySelector<HTMLHeadingElement>("#roomTitle");
+const rosterList = document.querySelector<HTMLUListElement>("#roster");
+const countdownLabel = document.querySelector<HTMLDivElement>("#countdown");
+const readyButton = document.querySelector<HTMLButtonElement>("#ready");
+const startButton = document.querySelector<HTMLButtonElement>("#start");
+const lobbyStatus = document.querySelector<HTMLDivElement>("#lobbyStatus");
+const spectateCheckbox = document.querySelector<HTMLInputElement>("#spectate");
+const spectateToggle = document.querySelector<HTMLButtonElement>("#spectateToggle");
+const leaderboardToggle = document.querySelector<HTMLButtonElement>("#leaderboardToggle");
+const lockToggle = document.querySelector<HTMLButtonElement>("#lockToggle");
+const leaderboardList = document.querySelector<HTMLOListElement>("#leaderboard");
+const botControls = document.querySelector<HTMLDivElement>("#botControls");
+const botDifficultySelect = document.querySelector<HTMLSelectElement>("#botDifficulty");
+const addBotButton = document.querySelector<HTMLButtonElement>("#addBot");
+const rulesPresetSelect = document.querySelector<HTMLSelectElement>("#rulesPreset");
+const rulesEventPolicySelect = document.querySelector<HTMLSelectElement>("#rulesEventPolicy");
+const rulesFriendlyPushSelect = document.querySelector<HTMLSelectElement>("#rulesFriendlyPush");
+const rulesMapInput = document.querySelector<HTMLInputElement>("#rulesMap");
+const rulesPublicInput = document.querySelector<HTMLInputElement>("#rulesPublic");
+const ruleInputs = Array.from(document.querySelectorAll<HTMLInputElement>("input[data-rule]"));
+const roomRulesLabel = document.querySelector<HTMLDivElement>("#roomRules");
+const replayOpenButton = document.querySelector<HTMLButtonElement>("#replayOpen");
+const replayFileInput = document.querySelector<HTMLInputElement>("#replayFile");
+const replayBar = document.querySelector<HTMLDivElement>("#replayBar");
+const replayPlayButton = document.querySelector<HTMLButtonElement>("#replayPlay");
+const replaySeek = document.querySelector<HTMLInputElement>("#replaySeek");
+const replayTime = document.querySelector<HTMLSpanElement>("#replayTime");
+const replaySpeed = document.querySelector<HTMLSelectElement>("#replaySpeed");
+const replayCloseButton = document.querySelector<HTMLButtonElement>("#replayClose");
+const chatPanel = document.querySelector<HTMLDivElement>("#chat");
+const chatLog = document.querySelector<HTMLUListElement>("#chatLog");
+const chatInput = document.querySelector<HTMLInputElement>("#chatInput");
+const emoteWheel = document.querySelector<HTMLDivElement>("#emoteWheel");
 
 if (!canvas || !lobby || !roomInput || !nicknameInput || !joinButton || !statusLabel || !hud) {
   throw new Error("Missing UI elements");
 }
+if (
+  !joinPanel ||
+  !passwordInput ||
+  !createButton ||
+  !quickPlayButton ||
+  !roomList ||
+  !roomPanel ||
+  !roomTitle ||
+  !rosterList ||
+  !countdownLabel ||
+  !readyButton ||
+  !startButton ||
+  !lobbyStatus ||
+  !spectateCheckbox ||
+  !spectateToggle ||
+  !leaderboardToggle ||
+  !lockToggle ||
+  !leaderboardList ||
+  !botControls ||
+  !botDifficultySelect ||
+  !addBotButton ||
+  !rulesPresetSelect ||
+  !rulesEventPolicySelect ||
+  !rulesFriendlyPushSelect ||
+  !rulesMapInput ||
+  !rulesPublicInput ||
+  !roomRulesLabel
+) {
+  throw new Error("Missing lobby elements");
+}
+if (
+  !replayOpenButton ||
+  !replayFileInput ||
+  !replayBar ||
+  !replayPlayButton ||
+  !replaySeek ||
+  !replayTime ||
+  !replaySpeed ||
+  !replayCloseButton
+) {
+  throw new Error("Missing replay elements");
+}
+if (!chatPanel || !chatLog || !chatInput || !emoteWheel) {
+  throw new Error("Missing chat elements");
+}
 
 const ctx = canvas.getContext("2d");
 if (!ctx) {
@@ -28,15 +181,24 @@ const state = {
   socket: null as WebSocket | null,
   playerId: "",
   connected: false,
-  world: { width: 1200, height: 800 } as WorldConfig,
+  resumeToken: "",
+  reconnectAttempt: 0,
+  reconnectTimer: 0,
+  world: RULE_PRESETS.classic.world as WorldConfig,
+  rules: RULE_PRESETS.classic as RoomRules,
+  map: createOpenMap(RULE_PRESETS.classic.world) as ArenaMap,
   lastEvent: null as ActiveEvent | null,
+  telegraph: null as Telegraph | null,
   roundEnd: null as Extract<ServerMessage, { type: "roundEnd" }> | null,
+  matchEnd: null as Extract<ServerMessage, { type: "matchEnd" }> | null,
+  lobby: null as Extract<ServerMessage, { type: "lobbyState" }> | null,
+  lobbyReceivedAt: 0,
   winnerName: "",
-  deathBanner: null as { text: string; start: number } | null,
+  killFeed: [] as KillFeedEntry[],
   eventBursts: [] as Array<{ type: string; start: number }>,
   fireworks: [] as Array<{ x: number; y: number; start: number; color: string }>,
-  dialogs: [] as Array<{ id: string; text: string; x: number; y: number; start: number }>,
-  lastCollisions: new Map<string, number>(),
+  bubbles: [] as Bubble[],
+  pickupFlashes: [] as PickupFlash[],
   joystick: {
     active: false,
     pointerId: null as number | null,
@@ -53,28 +215,35 @@ const state = {
     dash: false
   } as PlayerInput,
   seq: 0,
+  tickRate: 30,
+  snapshotRate: 12,
+  inputTimer: 0,
+  pingTimer: 0,
+  clock: createServerClock(),
+  predictor: createPredictor(),
+  lastFrameAt: 0,
+  replay: null as ReplayViewer | null,
+  snapshotDecoder: createSnapshotDecoder(),
+  camera: createCamera(),
+  spectating: false,
+  cameraCandidates: [] as Array<{ id: string; x: number; y: number; alive: boolean }>,
   snapshots: [] as Array<{ time: number; snapshot: Extract<ServerMessage, { type: "snapshot" }> }>
 };
 
-const INTERP_DELAY = 120;
-const DIALOG_DURATION = 1400;
-const COLLISION_COOLDOWN = 900;
-const DEATH_DURATION = 2200;
+// Snapshots kept for interpolation; enough to cover the largest jitter buffer.
+const MAX_SNAPSHOTS = 10;
+const PING_INTERVAL_MS = 2000;
 const FIREWORK_DURATION = 1800;
+// Retry delays after a dropped connection; the server holds the slot for 30s.
+const RECONNECT_DELAYS = [500, 1000, 2000, 4000, 8000];
 const JOYSTICK_RADIUS = 60;
 const JOYSTICK_KNOB = 24;
 const JOYSTICK_DEADZONE = 12;
 const eventPalette = ["#f7ff5b", "#ff8c2a", "#5bffbd", "#ff5bbd"];
-const dialogLines = [
-  "Ты че, баран?",
-  "Куда лезешь!",
-  "Это мой круг!",
-  "Отойди, шлеп!",
-  "Задирайся в другом месте",
-  "Я тут главный!",
-  "Шатайся вон туда",
-  "Ой, прости, не туда"
-];
+
+// Append ?snapshots=json to the page URL to receive readable snapshots while debugging.
+const snapshotEncodings: SnapshotEncoding[] =
+  new URLSearchParams(window.location.search).get("snapshots") === "json" ? ["json"] : ["binary", "json"];
 
 const isTouchDevice = "ontouchstart" in window || navigator.maxTouchPoints > 0;
 
@@ -115,62 +284,151 @@ const sendMessage = (message: ClientMessage) => {
   state.socket.send(JSON.stringify(message));
 };
 
-const colorForId = (id: string) => {
-  let hash = 0;
-  for (let i = 0; i < id.length; i += 1) {
-    hash = (hash * 31 + id.charCodeAt(i)) % 360;
-  }
-  return `hsl(${hash}, 78%, 60%)`;
+const serverUrl = () => `ws://${window.location.hostname}:8080`;
+
+const roomBrowser = createRoomBrowser();
+
+const browseRooms = () => {
+  startRoomBrowser(roomBrowser, serverUrl(), (rooms) => {
+    renderRoomList(roomList, rooms, (code) => {
+      roomInput.value = code;
+      connect(false);
+    });
+  });
 };
 
-const addDialog = (playerId: string, x: number, y: number) => {
-  const text = dialogLines[Math.floor(Math.random() * dialogLines.length)];
-  state.dialogs.push({ id: playerId + Date.now().toString(36), text, x, y, start: performance.now() });
-  if (state.dialogs.length > 12) {
-    state.dialogs.shift();
-  }
+const showJoinPanel = () => {
+  lobby.style.display = "grid";
+  joinPanel.hidden = false;
+  roomPanel.hidden = true;
+  browseRooms();
 };
 
-const emitCollisionDialogs = (players: Array<{ id: string; x: number; y: number; radius: number }>) => {
-  const now = performance.now();
-  for (let i = 0; i < players.length; i += 1) {
-    const a = players[i];
-    for (let j = i + 1; j < players.length; j += 1) {
-      const b = players[j];
-      const dx = b.x - a.x;
-      const dy = b.y - a.y;
-      const dist = Math.hypot(dx, dy);
-      if (dist > a.radius + b.radius + 2) continue;
-      const key = a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
-      const last = state.lastCollisions.get(key) ?? 0;
-      if (now - last < COLLISION_COOLDOWN) continue;
-      state.lastCollisions.set(key, now);
-      addDialog(a.id, a.x, a.y);
-      addDialog(b.id, b.x, b.y);
-    }
+const setJoining = (joining: boolean) => {
+  joinButton.disabled = joining;
+  createButton.disabled = joining;
+  quickPlayButton.disabled = joining;
+};
+
+/** The host's kick and ban buttons for someone else's roster row. */
+const createModerationButtons = (player: { id: string; nickname: string }) =>
+  (["kick", "ban"] as const).map((action) => {
+    const button = document.createElement("button");
+    button.className = "remove";
+    button.textContent = action === "kick" ? "✕" : "⛔";
+    button.title = action === "kick" ? `Kick ${player.nickname}` : `Ban ${player.nickname}`;
+    button.addEventListener("click", () => {
+      sendMessage({ type: "kick", playerId: player.id, ban: action === "ban" });
+    });
+    return button;
+  });
+
+/** Team chip for the roster; you can switch yourself, the host can move anyone. */
+const createTeamBadge = (player: { id: string; team: number }, hostId: string | null) => {
+  const badge = document.createElement("button");
+  badge.className = "team";
+  badge.textContent = player.team ? teamName(player.team) : "No team";
+  badge.style.color = teamColor(player.team) ?? "";
+  const canMove =
+    state.lobby?.phase === "lobby" && (player.id === state.playerId || hostId === state.playerId);
+  badge.disabled = !canMove;
+  badge.addEventListener("click", () => {
+    const team = (player.team % state.rules.teams) + 1;
+    sendMessage({ type: "setTeam", team, ...(player.id === state.playerId ? {} : { playerId: player.id }) });
+  });
+  return badge;
+};
+
+const renderLobby = () => {
+  const lobbyState = state.lobby;
+  if (!lobbyState) return;
+
+  const inRound =
+    lobbyState.phase === "playing" || lobbyState.phase === "intermission" || lobbyState.phase === "ended";
+  lobby.style.display = inRound ? "none" : "grid";
+  joinPanel.hidden = true;
+  roomPanel.hidden = false;
+
+  rosterList.replaceChildren(
+    ...lobbyState.players.map((player) => {
+      const item = document.createElement("li");
+      if (player.id === state.playerId) item.className = "me";
+      const name = document.createElement("span");
+      name.textContent = player.id === lobbyState.hostId ? `${player.nickname} ★` : player.nickname;
+      const tag = document.createElement("span");
+      if (player.bot) {
+        tag.className = "tag ready";
+        tag.textContent = `bot, ${player.bot}`;
+        item.append(name, tag);
+        if (lobbyState.hostId === state.playerId && lobbyState.phase === "lobby") {
+          const remove = document.createElement("button");
+          remove.className = "remove";
+          remove.textContent = "✕";
+          remove.title = "Remove bot";
+          remove.addEventListener("click", () => sendMessage({ type: "removeBot", playerId: player.id }));
+          tag.append(remove);
+        }
+        return item;
+      }
+      const ready = player.ready || player.id === lobbyState.hostId;
+      tag.className = ready && !player.spectator ? "tag ready" : "tag";
+      tag.textContent = !player.connected
+        ? "reconnecting"
+        : player.spectator
+          ? player.id === lobbyState.hostId
+            ? "host, spectating"
+            : "spectating"
+          : player.id === lobbyState.hostId
+            ? "host"
+            : ready
+              ? "ready"
+              : "not ready";
+      if (player.pingMs !== null && player.connected) tag.textContent += ` · ${player.pingMs} ms`;
+      item.append(name, tag);
+      if (lobbyState.hostId === state.playerId && player.id !== state.playerId) {
+        tag.append(...createModerationButtons(player));
+      }
+      return item;
+    })
+  );
+  if (state.rules.teams > 0) {
+    rosterList.querySelectorAll("li").forEach((item, index) => {
+      const player = lobbyState.players[index];
+      if (!player.spectator) item.prepend(createTeamBadge(player, lobbyState.hostId));
+    });
   }
+
+  const isHost = lobbyState.hostId === state.playerId;
+  const me = lobbyState.players.find((player) => player.id === state.playerId);
+  const everyoneReady = lobbyState.players.every(
+    (player) => player.ready || player.spectator || !player.connected || player.id === lobbyState.hostId
+  );
+  readyButton.hidden = isHost || me?.spectator === true;
+  readyButton.textContent = me?.ready ? "Not ready" : "Ready";
+  spectateToggle.textContent = me?.spectator ? "Play" : "Spectate";
+  spectateToggle.disabled = lobbyState.phase !== "lobby";
+  startButton.hidden = !isHost;
+  // Text chat is closed while a round runs; emotes work throughout.
+  chatPanel.hidden = lobbyState.phase === "playing";
+  emoteWheel.hidden = !isTouchDevice;
+  lockToggle.hidden = !isHost;
+  lockToggle.textContent = lobbyState.locked ? "Unlock room" : "Lock room";
+  botControls.hidden = !isHost;
+  addBotButton.disabled = lobbyState.phase !== "lobby";
+  startButton.disabled = lobbyState.phase !== "lobby" || !everyoneReady;
+  lobbyStatus.textContent = isHost
+    ? everyoneReady
+      ? "Everyone is ready."
+      : "Waiting for players to ready up..."
+    : "Waiting for the host to start...";
 };
 
-const drawRoundRect = (
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  radius: number
-) => {
-  const r = Math.min(radius, width / 2, height / 2);
-  ctx.beginPath();
-  ctx.moveTo(x + r, y);
-  ctx.lineTo(x + width - r, y);
-  ctx.quadraticCurveTo(x + width, y, x + width, y + r);
-  ctx.lineTo(x + width, y + height - r);
-  ctx.quadraticCurveTo(x + width, y + height, x + width - r, y + height);
-  ctx.lineTo(x + r, y + height);
-  ctx.quadraticCurveTo(x, y + height, x, y + height - r);
-  ctx.lineTo(x, y + r);
-  ctx.quadraticCurveTo(x, y, x + r, y);
-  ctx.closePath();
+const colorForId = (id: string) => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i += 1) {
+    hash = (hash * 31 + id.charCodeAt(i)) % 360;
+  }
+  return `hsl(${hash}, 78%, 60%)`;
 };
 
 const spawnFireworks = () => {
@@ -187,6 +445,55 @@ const spawnFireworks = () => {
   state.fireworks = bursts;
 };
 
+const showEvent = (event: ActiveEvent) => {
+  state.lastEvent = event;
+  state.telegraph = clearTelegraph(state.telegraph, event, performance.now());
+  state.eventBursts.push({ type: event.type, start: performance.now() });
+  if (state.eventBursts.length > 6) state.eventBursts.shift();
+};
+
+const showIncoming = (incoming: IncomingEvent, rate = 1) => {
+  state.telegraph = createTelegraph(incoming, performance.now(), rate);
+};
+
+const showKnockout = (
+  victim: { id: string; name: string },
+  killer: { id: string; name: string } | null,
+  assistIds: string[]
+) => {
+  pushKillFeed(state.killFeed, {
+    victim: victim.name,
+    killer: killer?.name ?? null,
+    assists: assistIds.length,
+    involved: [victim.id, killer?.id, ...assistIds].includes(state.playerId),
+    start: performance.now()
+  });
+};
+
+const showRoundEnd = (message: Extract<ServerMessage, { type: "roundEnd" }>, winnerName: string) => {
+  state.roundEnd = message;
+  if (message.reason === "lastAlive") {
+    state.winnerName = message.winningTeam ? teamName(message.winningTeam) : winnerName;
+    spawnFireworks();
+  }
+};
+
+const resetRoundEffects = () => {
+  state.lastEvent = null;
+  state.telegraph = null;
+  state.roundEnd = null;
+  state.winnerName = "";
+  state.killFeed = [];
+  state.fireworks = [];
+  state.eventBursts = [];
+  state.pickupFlashes = [];
+};
+
+const showPickup = (pickup: PickupType, at: { x: number; y: number } | undefined) => {
+  if (!at) return;
+  state.pickupFlashes.push({ pickup, x: at.x, y: at.y, start: performance.now() });
+};
+
 const updateJoystickInput = (dx: number, dy: number) => {
   state.input.left = dx < -JOYSTICK_DEADZONE;
   state.input.right = dx > JOYSTICK_DEADZONE;
@@ -202,95 +509,526 @@ const resetJoystick = () => {
   updateJoystickInput(0, 0);
 };
 
-const connect = () => {
+const leaveRoom = (status: string) => {
+  window.clearTimeout(state.reconnectTimer);
+  state.connected = false;
+  state.resumeToken = "";
+  state.reconnectAttempt = 0;
+  state.lobby = null;
+  chatPanel.hidden = true;
+  emoteWheel.hidden = true;
+  window.clearInterval(state.inputTimer);
+  window.clearInterval(state.pingTimer);
+  resetPredictor(state.predictor);
+  showJoinPanel();
+  setJoining(false);
+  updateStatus(status);
+};
+
+const scheduleReconnect = () => {
+  const delay = RECONNECT_DELAYS[state.reconnectAttempt];
+  if (delay === undefined) {
+    leaveRoom("Connection lost.");
+    return;
+  }
+  state.reconnectAttempt += 1;
+  state.reconnectTimer = window.setTimeout(() => {
+    openSocket({ type: "resume", token: state.resumeToken, encodings: snapshotEncodings });
+  }, delay);
+};
+
+const formatSeconds = (ms: number) => `${Math.round(ms / 100) / 10}s`;
+
+const formatRules = (rules: RoomRules) => {
+  const preset = RULE_PRESETS[rules.preset];
+  const custom = JSON.stringify(rules) !== JSON.stringify(preset) ? " (custom)" : "";
+  return [
+    `${rules.preset[0].toUpperCase()}${rules.preset.slice(1)}${custom}`,
+    `${formatClock(rules.roundDurationMs)} round`,
+    `shift every ${formatSeconds(rules.shiftIntervalMs)}`,
+    `pulse ±${Math.round(rules.pulseAmplitude * 100)}%`,
+    `drain ${rules.outsideHpDrain} HP/s`,
+    `dash ${formatSeconds(rules.dashCooldown * 1000)}`,
+    rules.eventPolicy === "fixedInterval"
+      ? "fixed events"
+      : `${rules.eventPolicy === "escalating" ? "escalating" : "random"} events ~${formatSeconds(
+          rules.eventIntervalMs
+        )}`,
+    rules.eventLeadMs > 0 ? `${formatSeconds(rules.eventLeadMs)} warning` : "no warning",
+    `first to ${rules.matchWinTarget} of ${rules.matchRounds} rounds`,
+    rules.teams > 0 ? `${rules.teams} teams, ${rules.friendlyPush} friendly push` : "free-for-all",
+    rules.maxPickups > 0
+      ? `up to ${rules.maxPickups} pickups every ${formatSeconds(rules.pickupIntervalMs)}`
+      : "no pickups",
+    `map ${rules.map}`,
+    `arena ${rules.world.width}×${rules.world.height}`,
+    `circle ${rules.circle.baseRadius}→${rules.circle.minRadius}`
+  ].join(" · ");
+};
+
+/** Reads the non-empty override fields; they only matter if this join creates the room. */
+const readRulesForm = () => {
+  const overrides: Record<string, unknown> = {};
+  for (const input of ruleInputs) {
+    const value = input.valueAsNumber;
+    const path = input.dataset.rule;
+    if (!path || Number.isNaN(value)) continue;
+    const scaled = value * Number(input.dataset.scale ?? 1);
+    const [group, key] = path.split(".");
+    if (key) {
+      overrides[group] = { ...(overrides[group] as object | undefined), [key]: scaled };
+    } else {
+      overrides[group] = scaled;
+    }
+  }
+  if (rulesEventPolicySelect.value) {
+    overrides.eventPolicy = rulesEventPolicySelect.value as EventPolicy;
+  }
+  if (rulesFriendlyPushSelect.value) {
+    overrides.friendlyPush = rulesFriendlyPushSelect.value as FriendlyPush;
+  }
+  if (rulesMapInput.value.trim()) {
+    overrides.map = rulesMapInput.value.trim();
+  }
+  return { preset: rulesPresetSelect.value as RulesPreset, overrides: overrides as RulesOverrides };
+};
+
+const showPresetPlaceholders = () => {
+  const preset = RULE_PRESETS[rulesPresetSelect.value as RulesPreset];
+  for (const input of ruleInputs) {
+    const [group, key] = (input.dataset.rule ?? "").split(".");
+    const groupValue = preset[group as keyof RoomRules];
+    const value = key ? (groupValue as unknown as Record<string, number>)[key] : (groupValue as number);
+    input.placeholder = String(value / Number(input.dataset.scale ?? 1));
+  }
+  rulesMapInput.placeholder = preset.map;
+};
+rulesPresetSelect.addEventListener("change", showPresetPlaceholders);
+showPresetPlaceholders();
+
+/** Joins the room in the code box; `create` opens it with the form's rules if nobody has yet. */
+const connect = (create: boolean) => {
   const roomCode = roomInput.value.trim();
   const nickname = nicknameInput.value.trim();
+  const spectate = spectateCheckbox.checked;
   if (!roomCode || !nickname) {
     updateStatus("Room code and nickname required.");
     return;
   }
 
-  joinButton.disabled = true;
+  setJoining(true);
   updateStatus("Connecting...");
+  openSocket({
+    type: "join",
+    roomCode,
+    nickname,
+    spectate,
+    encodings: snapshotEncodings,
+    create,
+    visibility: rulesPublicInput.checked ? "public" : "private",
+    password: passwordInput.value || undefined,
+    rules: readRulesForm(),
+    profileToken: loadProfileToken()
+  });
+};
+
+const quickPlay = () => {
+  const nickname = nicknameInput.value.trim();
+  if (!nickname) {
+    updateStatus("Nickname required.");
+    return;
+  }
+  setJoining(true);
+  updateStatus("Finding a room...");
+  openSocket({
+    type: "quickPlay",
+    nickname,
+    spectate: spectateCheckbox.checked,
+    encodings: snapshotEncodings,
+    profileToken: loadProfileToken()
+  });
+};
 
-  const host = window.location.hostname;
-  const socket = new WebSocket(`ws://${host}:8080`);
+/** Opens a socket that introduces itself with `hello`: a fresh `join` or a `resume`. */
+const openSocket = (hello: ClientMessage) => {
+  const socket = new WebSocket(serverUrl());
+  socket.binaryType = "arraybuffer";
   state.socket = socket;
+  state.snapshotDecoder = createSnapshotDecoder();
 
   socket.addEventListener("open", () => {
-    sendMessage({ type: "join", roomCode, nickname });
+    sendMessage(hello);
   });
 
   socket.addEventListener("message", (event) => {
-    const message = JSON.parse(event.data) as ServerMessage;
+    let message: ServerMessage;
+    if (event.data instanceof ArrayBuffer) {
+      const snapshot = decodeSnapshot(state.snapshotDecoder, event.data);
+      if (!snapshot) return;
+      sendMessage({ type: "ack", tick: snapshot.tick });
+      message = snapshot;
+    } else {
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.ok) {
+        console.warn("Dropped server message:", parsed.reason);
+        return;
+      }
+      message = parsed.value;
+    }
     if (message.type === "welcome") {
       state.playerId = message.playerId;
       state.connected = true;
-      state.world = message.world;
+      state.resumeToken = message.resumeToken;
+      saveProfileToken(message.profileToken);
+      stopRoomBrowser(roomBrowser);
+      state.reconnectAttempt = 0;
+      state.world = message.rules.world;
+      state.rules = message.rules;
+      state.map = createOpenMap(message.rules.world);
+      roomRulesLabel.textContent = formatRules(message.rules);
       state.snapshots = [];
       state.lastEvent = null;
+      state.telegraph = null;
       state.roundEnd = null;
+      state.matchEnd = null;
       state.winnerName = "";
-      state.deathBanner = null;
+      state.killFeed = [];
       state.fireworks = [];
+      state.bubbles = [];
+      chatLog.replaceChildren();
+      state.lobby = null;
+      state.tickRate = message.tickRate;
+      state.snapshotRate = message.snapshotRate;
+      state.clock = createServerClock();
+      startPingLoop();
+      state.camera = createCamera();
+      resetPredictor(state.predictor);
+      startInputLoop();
       updateJoystickBase();
       if (isTouchDevice) {
         resetJoystick();
       }
-      lobby.style.display = "none";
+      roomTitle.textContent = `Room ${message.roomCode}${message.visibility === "public" ? " (public)" : ""}`;
+      roomInput.value = message.roomCode;
       updateStatus(`Joined ${message.roomCode}`);
       return;
     }
+    if (message.type === "lobbyState") {
+      const previousPhase = state.lobby?.phase;
+      if (message.phase === "countdown" && previousPhase !== "countdown") {
+        resetRoundEffects();
+        state.matchEnd = null;
+      }
+      if (message.phase === "playing" && previousPhase === "intermission") {
+        resetRoundEffects();
+      }
+      state.lobby = message;
+      state.lobbyReceivedAt = performance.now();
+      state.map = message.map;
+      state.world = { width: message.map.width, height: message.map.height };
+      renderLobby();
+      return;
+    }
+    if (message.type === "pong") {
+      recordPong(state.clock, message.clientTime, message.serverTime, performance.now());
+      return;
+    }
     if (message.type === "snapshot") {
-      state.snapshots.push({ time: performance.now(), snapshot: message });
-      if (state.snapshots.length > 5) {
+      recordArrival(state.clock, message.serverTime, performance.now());
+      state.snapshots.push({ time: message.serverTime, snapshot: message });
+      if (state.snapshots.length > MAX_SNAPSHOTS) {
         state.snapshots.shift();
       }
+      const me = message.players.find((player) => player.id === state.playerId);
+      if (me && state.lobby?.phase === "playing") {
+        reconcile(
+          state.predictor,
+          me,
+          1 / state.tickRate,
+          message.circles,
+          state.rules,
+          getArenaModifiers(message.event),
+          state.map
+        );
+      } else {
+        resetPredictor(state.predictor);
+      }
       return;
     }
     if (message.type === "event") {
-      state.lastEvent = message.event;
-      state.eventBursts.push({ type: message.event.type, start: performance.now() });
-      if (state.eventBursts.length > 6) state.eventBursts.shift();
+      showEvent(message.event);
+      return;
+    }
+    if (message.type === "eventIncoming") {
+      showIncoming(message.incoming);
       return;
     }
     if (message.type === "death") {
-      state.deathBanner = {
-        text: `${message.nickname} ПОМЕР`,
-        start: performance.now()
-      };
+      showKnockout(
+        { id: message.playerId, name: message.nickname },
+        message.killerId ? { id: message.killerId, name: message.killerNickname ?? message.killerId } : null,
+        message.assistIds
+      );
+      return;
+    }
+    if (message.type === "emote" || message.type === "chat") {
+      const text = message.type === "emote" ? EMOTES[message.emote] : message.text;
+      const nickname =
+        message.type === "chat"
+          ? message.nickname
+          : state.lobby?.players.find((player) => player.id === message.playerId)?.nickname ?? message.playerId;
+      pushBubble(state.bubbles, message.playerId, text, performance.now());
+      appendChatLine(chatLog, nickname, text);
+      return;
+    }
+    if (message.type === "pickup") {
+      const latest = state.snapshots[state.snapshots.length - 1]?.snapshot;
+      showPickup(message.pickup, latest?.players.find((player) => player.id === message.playerId));
       return;
     }
     if (message.type === "roundEnd") {
-      state.roundEnd = message;
-      if (message.reason === "lastAlive") {
-        const latest = state.snapshots[state.snapshots.length - 1]?.snapshot;
-        const winner = latest?.players.find((player) => player.id === message.winnerId);
-        state.winnerName = winner?.nickname ?? message.winnerId ?? "";
-        spawnFireworks();
-      }
+      const latest = state.snapshots[state.snapshots.length - 1]?.snapshot;
+      const winner = latest?.players.find((player) => player.id === message.winnerId);
+      showRoundEnd(message, winner?.nickname ?? message.winnerId ?? "");
+      // Ratings just moved; refresh the table if it is open.
+      if (!leaderboardList.hidden) sendMessage({ type: "leaderboard" });
+      return;
+    }
+    if (message.type === "matchEnd") {
+      state.matchEnd = message;
+      spawnFireworks();
+      return;
+    }
+    if (message.type === "leaderboard") {
+      renderLeaderboard(leaderboardList, message.entries, message.self);
       return;
     }
     if (message.type === "error") {
+      if (message.code === "resumeFailed" || message.code === "kicked" || message.code === "roomClosed") {
+        state.socket = null;
+        socket.close();
+        leaveRoom(message.message);
+        return;
+      }
+      if (state.lobby) {
+        lobbyStatus.textContent = message.message;
+        return;
+      }
       updateStatus(message.message);
-      joinButton.disabled = false;
+      setJoining(false);
     }
   });
 
-  socket.addEventListener("close", () => {
+  socket.addEventListener("close", (event) => {
+    if (state.socket !== socket) return;
+    state.socket = null;
+    // 1008 means the server expelled us; resuming would only be refused.
+    if (!state.resumeToken || event.code === 1008) {
+      leaveRoom("Disconnected.");
+      return;
+    }
     state.connected = false;
-    lobby.style.display = "grid";
-    joinButton.disabled = false;
-    updateStatus("Disconnected.");
+    window.clearInterval(state.inputTimer);
+    window.clearInterval(state.pingTimer);
+    resetPredictor(state.predictor);
+    if (state.lobby) lobbyStatus.textContent = "Connection lost, reconnecting...";
+    scheduleReconnect();
   });
 };
 
-joinButton.addEventListener("click", connect);
+joinButton.addEventListener("click", () => connect(false));
+createButton.addEventListener("click", () => connect(true));
+quickPlayButton.addEventListener("click", quickPlay);
+browseRooms();
+
+readyButton.addEventListener("click", () => {
+  const me = state.lobby?.players.find((player) => player.id === state.playerId);
+  sendMessage({ type: "ready", ready: !me?.ready });
+});
+
+startButton.addEventListener("click", () => {
+  sendMessage({ type: "start" });
+});
+
+const sendEmote = (emote: EmoteId) => {
+  if (state.lobby) sendMessage({ type: "emote", emote });
+};
+
+createEmoteWheel(emoteWheel, sendEmote);
+
+chatInput.maxLength = MAX_CHAT_LENGTH;
+chatInput.addEventListener("keydown", (event) => {
+  if (event.key !== "Enter") return;
+  const text = chatInput.value.trim();
+  if (text) sendMessage({ type: "chat", text });
+  chatInput.value = "";
+});
+
+const toggleLock = () => {
+  if (state.lobby?.hostId !== state.playerId) return;
+  sendMessage({ type: "lockRoom", locked: !state.lobby.locked });
+};
+
+lockToggle.addEventListener("click", toggleLock);
+
+leaderboardToggle.addEventListener("click", () => {
+  leaderboardList.hidden = !leaderboardList.hidden;
+  if (!leaderboardList.hidden) sendMessage({ type: "leaderboard" });
+});
+
+addBotButton.addEventListener("click", () => {
+  sendMessage({ type: "addBot", difficulty: botDifficultySelect.value as BotDifficulty });
+});
+
+spectateToggle.addEventListener("click", () => {
+  const me = state.lobby?.players.find((player) => player.id === state.playerId);
+  sendMessage({ type: "spectate", spectate: !me?.spectator });
+});
+
+const formatClock = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const updateReplayBar = () => {
+  const viewer = state.replay;
+  if (!viewer) return;
+  const stepMs = 1000 / viewer.file.tickRate;
+  replaySeek.value = String(viewer.cursor.state.tick);
+  replayTime.textContent = `${formatClock(viewer.cursor.state.tick * stepMs)} / ${formatClock(
+    viewer.file.durationTicks * stepMs
+  )}`;
+  replayPlayButton.textContent = viewer.playing ? "Pause" : "Play";
+};
+
+const openReplay = (text: string) => {
+  let viewer: ReplayViewer;
+  try {
+    viewer = createReplayViewer(parseReplay(text));
+  } catch (error) {
+    updateStatus(error instanceof Error ? error.message : "Could not read replay.");
+    return;
+  }
+  state.replay = viewer;
+  state.map = viewer.file.map;
+  state.world = { width: viewer.file.map.width, height: viewer.file.map.height };
+  state.rules = viewer.file.rules;
+  state.camera = createCamera();
+  state.camera.mode = "overview";
+  resetRoundEffects();
+  stopRoomBrowser(roomBrowser);
+  lobby.style.display = "none";
+  replayBar.hidden = false;
+  replaySeek.max = String(viewer.file.durationTicks);
+  replaySpeed.value = String(viewer.speed);
+  updateReplayBar();
+};
+
+const closeReplay = () => {
+  state.replay = null;
+  replayBar.hidden = true;
+  resetRoundEffects();
+  showJoinPanel();
+};
+
+const toggleReplayPlayback = () => {
+  const viewer = state.replay;
+  if (!viewer) return;
+  if (!viewer.playing && viewer.cursor.state.tick >= viewer.file.durationTicks) {
+    seekReplay(viewer, 0);
+    resetRoundEffects();
+  }
+  viewer.playing = !viewer.playing;
+  updateReplayBar();
+};
+
+const applyReplayStep = (viewer: ReplayViewer, step: ReplayStep) => {
+  for (const event of step.result.events) {
+    showEvent(event);
+  }
+  for (const incoming of step.result.incoming) {
+    showIncoming(incoming, viewer.speed);
+  }
+  const nameOf = (id: string) => ({ id, name: viewer.nicknames.get(id) ?? id });
+  for (const { playerId, killerId, assistIds } of step.result.deaths) {
+    showKnockout(nameOf(playerId), killerId ? nameOf(killerId) : null, assistIds);
+  }
+  for (const { playerId, pickup } of step.result.pickups) {
+    showPickup(pickup, viewer.cursor.state.bodies.get(playerId));
+  }
+  for (const entry of step.entries) {
+    if (entry.type !== "roundEnd") continue;
+    const winnerName = entry.winnerId ? viewer.nicknames.get(entry.winnerId) ?? entry.winnerId : "";
+    showRoundEnd(
+      {
+        type: "roundEnd",
+        winnerId: entry.winnerId,
+        winningTeam: entry.winningTeam ?? 0,
+        reason: entry.reason,
+        round: entry.round
+      },
+      winnerName
+    );
+  }
+};
+
+for (const speed of REPLAY_SPEEDS) {
+  const option = document.createElement("option");
+  option.value = String(speed);
+  option.textContent = `${speed}x`;
+  replaySpeed.append(option);
+}
+
+replayOpenButton.addEventListener("click", () => {
+  replayFileInput.click();
+});
+
+replayFileInput.addEventListener("change", async () => {
+  const file = replayFileInput.files?.[0];
+  replayFileInput.value = "";
+  if (!file) return;
+  openReplay(await file.text());
+});
+
+replayPlayButton.addEventListener("click", toggleReplayPlayback);
+
+replaySeek.addEventListener("input", () => {
+  if (!state.replay) return;
+  seekReplay(state.replay, Number(replaySeek.value));
+  resetRoundEffects();
+  updateReplayBar();
+});
+
+replaySpeed.addEventListener("change", () => {
+  if (!state.replay) return;
+  state.replay.speed = Number(replaySpeed.value);
+});
+
+replayCloseButton.addEventListener("click", closeReplay);
 
 canvas.style.touchAction = "none";
 
 window.addEventListener("keydown", (event) => {
   if (event.repeat) return;
+  // Typing a nickname or a chat line must not steer or fire emotes.
+  if (event.target instanceof HTMLInputElement) return;
+  if (state.spectating) {
+    if (event.code === "KeyQ") cycleCameraTarget(state.camera, state.cameraCandidates, -1);
+    if (event.code === "KeyE") cycleCameraTarget(state.camera, state.cameraCandidates, 1);
+    if (event.code === "KeyV") toggleOverview(state.camera);
+  }
+  if (state.replay) {
+    const stepsPerSecond = state.replay.file.tickRate;
+    if (event.code === "Space") toggleReplayPlayback();
+    if (event.code === "ArrowLeft") seekReplay(state.replay, state.replay.cursor.state.tick - stepsPerSecond * 5);
+    if (event.code === "ArrowRight") seekReplay(state.replay, state.replay.cursor.state.tick + stepsPerSecond * 5);
+    updateReplayBar();
+    return;
+  }
+  // The lobby panel is hidden during rounds, so the host locks and unlocks mid-match from the keyboard.
+  if (event.code === "KeyL") toggleLock();
+  const emote = event.code.startsWith("Digit") ? EMOTE_KEYS[Number(event.code.slice(5)) - 1] : undefined;
+  if (emote) sendEmote(emote);
   if (event.code === "KeyW") state.input.up = true;
   if (event.code === "KeyS") state.input.down = true;
   if (event.code === "KeyA") state.input.left = true;
@@ -316,6 +1054,10 @@ window.addEventListener("keyup", (event) => {
 
 canvas.addEventListener("pointerdown", (event) => {
   if (!isTouchDevice) return;
+  if (state.spectating) {
+    cycleCameraTarget(state.camera, state.cameraCandidates, 1);
+    return;
+  }
   if (!state.connected) return;
   if (state.joystick.active) return;
   const rect = canvas.getBoundingClientRect();
@@ -366,7 +1108,8 @@ canvas.addEventListener("pointercancel", (event) => {
   resetJoystick();
 });
 
-setInterval(() => {
+// One input per server tick, so every message maps onto exactly one simulation step.
+const sendInput = () => {
   if (!state.connected) return;
   const message: ClientMessage = {
     type: "input",
@@ -375,23 +1118,55 @@ setInterval(() => {
   };
   sendMessage(message);
   state.input.dash = false;
-}, 50);
 
-const render = () => {
-  requestAnimationFrame(render);
-  ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-  if (!state.connected) {
-    hud.textContent = "";
-    return;
+  const latest = state.snapshots[state.snapshots.length - 1]?.snapshot;
+  if (latest && state.lobby?.phase === "playing") {
+    predictInput(
+      state.predictor,
+      message.seq,
+      message.input,
+      1 / state.tickRate,
+      latest.circles,
+      state.rules,
+      getArenaModifiers(latest.event),
+      state.map,
+      performance.now()
+    );
   }
+};
 
-  const now = performance.now();
-  const renderTime = now - INTERP_DELAY;
+const sendPing = () => {
+  const rttMs = state.clock.rttMs;
+  sendMessage({ type: "ping", clientTime: performance.now(), rttMs: rttMs === null ? undefined : Math.round(rttMs) });
+};
+
+const startPingLoop = () => {
+  window.clearInterval(state.pingTimer);
+  sendPing();
+  state.pingTimer = window.setInterval(sendPing, PING_INTERVAL_MS);
+};
+
+const startInputLoop = () => {
+  window.clearInterval(state.inputTimer);
+  state.inputTimer = window.setInterval(sendInput, 1000 / state.tickRate);
+};
+
+type Frame = {
+  players: PlayerSnapshot[];
+  circles: SafeCircleSnapshot[];
+  event: ActiveEvent | null;
+  pickups: PickupSnapshot[];
+  remainingMs: number;
+};
+
+const getLiveFrame = (now: number, frameDt: number): Frame | null => {
+  // Snapshots go out on whole ticks, so the longest gap between two is a whole number of ticks.
+  const snapshotGapMs = (Math.ceil(state.tickRate / state.snapshotRate) * 1000) / state.tickRate;
+  const renderTime = getRenderTime(state.clock, now, snapshotGapMs);
   const snapshots = state.snapshots;
 
   if (snapshots.length === 0) {
-    return;
+    return null;
   }
 
   let baseIndex = snapshots.findIndex((snap) => snap.time > renderTime) - 1;
@@ -402,7 +1177,12 @@ const render = () => {
   const span = Math.max(1, to.time - from.time);
   const t = Math.min(1, Math.max(0, (renderTime - from.time) / span));
 
+  const predicted = getPredictedPosition(state.predictor, now, 1000 / state.tickRate, frameDt);
+
   const players = from.snapshot.players.map((player) => {
+    if (predicted && player.id === state.playerId) {
+      return { ...player, x: predicted.x, y: predicted.y };
+    }
     const target = to.snapshot.players.find((p) => p.id === player.id);
     if (!target) return player;
     return {
@@ -412,26 +1192,82 @@ const render = () => {
     };
   });
 
-  const circleFrom = from.snapshot.circle;
-  const circleTo = to.snapshot.circle;
-  const circle: SafeCircleSnapshot = {
-    x: circleFrom.x + (circleTo.x - circleFrom.x) * t,
-    y: circleFrom.y + (circleTo.y - circleFrom.y) * t,
-    radius: circleFrom.radius + (circleTo.radius - circleFrom.radius) * t,
-    innerRadius: circleFrom.innerRadius + (circleTo.innerRadius - circleFrom.innerRadius) * t
+  // Zones only blend while their count holds; a split starting or ending snaps.
+  const circlesTo = to.snapshot.circles;
+  const circles = from.snapshot.circles.map((circleFrom, index): SafeCircleSnapshot => {
+    const circleTo = circlesTo.length === from.snapshot.circles.length ? circlesTo[index] : circleFrom;
+    return {
+      x: circleFrom.x + (circleTo.x - circleFrom.x) * t,
+      y: circleFrom.y + (circleTo.y - circleFrom.y) * t,
+      radius: circleFrom.radius + (circleTo.radius - circleFrom.radius) * t,
+      innerRadius: circleFrom.innerRadius + (circleTo.innerRadius - circleFrom.innerRadius) * t
+    };
+  });
+
+  return {
+    players,
+    circles,
+    event: from.snapshot.event ?? null,
+    pickups: from.snapshot.pickups,
+    remainingMs: from.snapshot.remainingMs
   };
+};
+
+const getPings = () => new Map(state.lobby?.players.map((player) => [player.id, player.pingMs]));
+
+const render = () => {
+  requestAnimationFrame(render);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  if (!state.connected && !state.replay) {
+    hud.textContent = state.reconnectAttempt > 0 ? "Reconnecting..." : "";
+    return;
+  }
+
+  const now = performance.now();
+  const frameDt = state.lastFrameAt ? Math.min(0.1, (now - state.lastFrameAt) / 1000) : 0;
+  state.lastFrameAt = now;
+
+  if (state.lobby?.phase === "countdown") {
+    const left = state.lobby.countdownMs - (now - state.lobbyReceivedAt);
+    countdownLabel.textContent = `Starting in ${Math.max(1, Math.ceil(left / 1000))}...`;
+  } else {
+    countdownLabel.textContent = "";
+  }
 
-  const me = players.find((player) => player.id === state.playerId);
-  const focusX = me?.x ?? state.world.width * 0.5;
-  const focusY = me?.y ?? state.world.height * 0.5;
-  const offsetX = canvas.width * 0.5 - focusX;
-  const offsetY = canvas.height * 0.5 - focusY;
+  const viewer = state.replay;
+  if (viewer) {
+    advanceReplay(viewer, frameDt * 1000, (step) => applyReplayStep(viewer, step));
+    updateReplayBar();
+  }
+
+  state.telegraph = clearTelegraph(state.telegraph, null, now);
+
+  const frame = viewer ? getReplayFrame(viewer) : getLiveFrame(now, frameDt);
+  if (!frame) {
+    return;
+  }
+  const { players, circles, event, pickups, remainingMs } = frame;
+
+  const me = viewer ? undefined : players.find((player) => player.id === state.playerId);
+  state.spectating = !me || !me.alive;
+  state.cameraCandidates = players;
+  const followedId = updateCamera(state.camera, {
+    self: me ?? null,
+    spectating: state.spectating,
+    candidates: players,
+    world: state.world,
+    viewport: { width: canvas.width, height: canvas.height },
+    frameDt
+  });
 
   ctx.fillStyle = "#0b1118";
   ctx.fillRect(0, 0, canvas.width, canvas.height);
 
   ctx.save();
-  ctx.translate(offsetX, offsetY);
+  ctx.translate(canvas.width * 0.5, canvas.height * 0.5);
+  ctx.scale(state.camera.zoom, state.camera.zoom);
+  ctx.translate(-state.camera.x, -state.camera.y);
 
   for (const prop of backgroundProps) {
     ctx.save();
@@ -476,28 +1312,61 @@ const render = () => {
     ctx.restore();
   }
 
-  ctx.strokeStyle = "rgba(90, 200, 255, 0.45)";
-  ctx.lineWidth = 3;
-  ctx.beginPath();
-  ctx.arc(circle.x, circle.y, circle.radius, 0, Math.PI * 2);
-  ctx.stroke();
+  drawMap(ctx, state.map, now);
+  drawArenaEffects(ctx, event, circles, now);
+  drawPickups(ctx, pickups, now);
+
+  for (const circle of circles) {
+    ctx.strokeStyle = "rgba(90, 200, 255, 0.45)";
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(circle.x, circle.y, circle.radius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.strokeStyle = "rgba(90, 200, 255, 0.2)";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(circle.x, circle.y, circle.innerRadius, 0, Math.PI * 2);
+    ctx.stroke();
+  }
 
-  ctx.strokeStyle = "rgba(90, 200, 255, 0.2)";
-  ctx.lineWidth = 2;
-  ctx.beginPath();
-  ctx.arc(circle.x, circle.y, circle.innerRadius, 0, Math.PI * 2);
-  ctx.stroke();
+  if (state.telegraph) drawTelegraph(ctx, state.telegraph, circles[0], now);
 
   for (const player of players) {
     const isLocal = player.id === state.playerId;
-    const baseColor = colorForId(player.id);
+    const color = teamColor(player.team);
+    drawStatusEffects(ctx, player, now);
     if (player.alive) {
       ctx.beginPath();
       ctx.arc(player.x, player.y, player.radius, 0, Math.PI * 2);
-      ctx.fillStyle = isLocal ? "#35b1ff" : baseColor;
+      ctx.fillStyle = color ?? (isLocal ? "#35b1ff" : colorForId(player.id));
       ctx.fill();
-      ctx.strokeStyle = "rgba(255, 255, 255, 0.4)";
+      // With team colours the local player is picked out by a bright outline instead.
+      ctx.save();
+      ctx.strokeStyle = color && isLocal ? "#ffffff" : "rgba(255, 255, 255, 0.4)";
+      ctx.lineWidth = color && isLocal ? 3 : 1;
       ctx.stroke();
+      ctx.restore();
+      if (player.bot) {
+        // Bots get a dashed outer ring so they are never mistaken for people.
+        ctx.save();
+        ctx.setLineDash([4, 4]);
+        ctx.strokeStyle = "rgba(229, 241, 255, 0.7)";
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(player.x, player.y, player.radius + 4, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.restore();
+      }
+      if (player.id === followedId) {
+        ctx.save();
+        ctx.strokeStyle = "#f7ff5b";
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(player.x, player.y, player.radius + 7, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.restore();
+      }
     } else {
       ctx.beginPath();
       ctx.moveTo(player.x, player.y - player.radius);
@@ -517,30 +1386,27 @@ const render = () => {
     ctx.fillText(`${player.nickname} [${hpLabel}]`, player.x, player.y - player.radius - 6);
   }
 
-  emitCollisionDialogs(players);
+  state.pickupFlashes = state.pickupFlashes.filter((flash) => !isFlashDone(flash, now));
+  drawPickupFlashes(ctx, state.pickupFlashes, now);
 
-  state.dialogs = state.dialogs.filter((dialog) => now - dialog.start < DIALOG_DURATION);
-  for (const dialog of state.dialogs) {
-    const life = Math.min(1, (now - dialog.start) / DIALOG_DURATION);
-    const floatY = -18 - life * 22;
-    const scale = 1 + Math.sin(life * Math.PI) * 0.18;
-    ctx.save();
-    ctx.translate(dialog.x, dialog.y + floatY);
-    ctx.scale(scale, scale);
-    ctx.fillStyle = "rgba(20, 24, 35, 0.92)";
-    ctx.strokeStyle = "rgba(255, 255, 255, 0.4)";
-    drawRoundRect(ctx, -60, -24, 120, 30, 8);
-    ctx.fill();
-    ctx.stroke();
-    ctx.fillStyle = "#f7ff5b";
-    ctx.font = "12px Trebuchet MS";
-    ctx.textAlign = "center";
-    ctx.fillText(dialog.text, 0, -5);
-    ctx.restore();
-  }
+  state.bubbles = pruneBubbles(state.bubbles, now);
+  drawBubbles(ctx, state.bubbles, players, now);
 
   ctx.restore();
 
+  drawArenaOverlay(ctx, event, { width: canvas.width, height: canvas.height }, now);
+  if (me) drawEffectTimers(ctx, me, { width: canvas.width, height: canvas.height });
+
+  if (state.telegraph) {
+    drawTelegraphArrow(
+      ctx,
+      state.telegraph,
+      state.camera,
+      { width: canvas.width, height: canvas.height },
+      now
+    );
+  }
+
   if (isTouchDevice && state.connected) {
     ctx.save();
     ctx.globalAlpha = 0.7;
@@ -559,14 +1425,33 @@ const render = () => {
     ctx.restore();
   }
 
-  const remaining = Math.max(0, Math.round(from.snapshot.remainingMs / 1000));
+  const remaining = Math.max(0, Math.round(remainingMs / 1000));
   const eventLabel = state.lastEvent ? `Event: ${state.lastEvent.type}` : "";
+  const match = viewer ? null : state.lobby?.match;
+  const matchLabel = match ? `Round ${match.round}/${match.rounds}  ` : "";
   const roundLabel = state.roundEnd
-    ? `Winner: ${state.roundEnd.winnerId ?? "none"} (${state.roundEnd.reason})`
+    ? `Winner: ${
+        state.roundEnd.winningTeam ? teamName(state.roundEnd.winningTeam) : state.roundEnd.winnerId ?? "none"
+      } (${state.roundEnd.reason})`
     : "";
-  hud.textContent = `Players: ${players.length}  HP: ${me?.hp ?? 0}  Domination: ${Math.floor(
+  const teamLabel = getTeamTotals(players)
+    .map(([team, total]) => `${teamName(team)}: ${Math.floor(total)}s  `)
+    .join("");
+  const replayLabel = viewer ? `Replay ${viewer.file.roomCode}  ` : "";
+  const pingLabel = !viewer && state.clock.rttMs !== null ? `  Ping: ${Math.round(state.clock.rttMs)} ms` : "";
+  const lockLabel =
+    !viewer && state.lobby?.locked
+      ? `Locked${state.lobby.hostId === state.playerId ? " (L to unlock)" : ""}  `
+      : "";
+  const followed = players.find((player) => player.id === followedId);
+  const spectateLabel = state.spectating
+    ? `  Watching: ${
+        state.camera.mode === "overview" ? "overview" : followed?.nickname ?? "-"
+      } (Q/E cycle, V overview)`
+    : "";
+  hud.textContent = `${replayLabel}${lockLabel}${matchLabel}Players: ${players.length}  HP: ${me?.hp ?? 0}  Domination: ${Math.floor(
     me?.dominationTime ?? 0
-  )}s  Time: ${remaining}s  ${eventLabel}  ${roundLabel}`;
+  )}s  KO: ${me?.knockouts ?? 0} (+${me?.assists ?? 0})  ${teamLabel}Time: ${remaining}s  ${eventLabel}  ${roundLabel}${spectateLabel}${pingLabel}\n${formatRules(state.rules)}`;
 
   for (const burst of state.eventBursts) {
     const progress = (now - burst.start) / 1200;
@@ -597,25 +1482,8 @@ const render = () => {
     ctx.restore();
   }
 
-  if (state.deathBanner) {
-    const life = (now - state.deathBanner.start) / DEATH_DURATION;
-    if (life < 1) {
-      const scale = 1 + Math.sin(life * Math.PI) * 0.12;
-      ctx.save();
-      ctx.translate(canvas.width * 0.5, canvas.height * 0.2);
-      ctx.scale(scale, scale);
-      ctx.font = "48px Trebuchet MS";
-      ctx.textAlign = "center";
-      ctx.fillStyle = "#ff1b1b";
-      ctx.strokeStyle = "#120607";
-      ctx.lineWidth = 8;
-      ctx.strokeText(state.deathBanner.text, 0, 0);
-      ctx.fillText(state.deathBanner.text, 0, 0);
-      ctx.restore();
-    } else {
-      state.deathBanner = null;
-    }
-  }
+  state.killFeed = pruneKillFeed(state.killFeed, now);
+  drawKillFeed(ctx, state.killFeed, now, canvas, 160);
 
   if (state.fireworks.length > 0) {
     for (const burst of state.fireworks) {
@@ -652,6 +1520,40 @@ const render = () => {
       ctx.restore();
     }
   }
+
+  const viewport = { width: canvas.width, height: canvas.height };
+  if (state.matchEnd && !viewer) {
+    const { championId, championTeam, standings, rounds } = state.matchEnd;
+    const champion = standings.find((standing) => standing.playerId === championId);
+    const nameOf = (id: string | null) =>
+      standings.find((standing) => standing.playerId === id)?.nickname ?? "nobody";
+    drawStandings(ctx, viewport, {
+      title: championTeam
+        ? `Champions: ${teamName(championTeam)}`
+        : champion
+          ? `Champion: ${champion.nickname}`
+          : "The match is a draw",
+      subtitle: `${rounds.length} ${rounds.length === 1 ? "round" : "rounds"} played`,
+      standings,
+      highlightId: state.playerId,
+      pings: getPings(),
+      notes: rounds.map(
+        (result) =>
+          `Round ${result.round}: ${
+            result.winningTeam ? teamName(result.winningTeam) : nameOf(result.winnerId)
+          }${result.reason === "timeout" ? " (on time)" : result.reason === "aborted" ? " (aborted)" : ""}`
+      )
+    });
+  } else if (match && state.lobby?.phase === "intermission") {
+    const left = state.lobby.countdownMs - (now - state.lobbyReceivedAt);
+    drawStandings(ctx, viewport, {
+      title: `Round ${match.round} of ${match.rounds} over`,
+      subtitle: `Next round in ${Math.max(1, Math.ceil(left / 1000))}s · first to ${match.winTarget} wins takes it`,
+      standings: match.standings,
+      highlightId: state.playerId,
+      pings: getPings()
+    });
+  }
 };
 
 render();
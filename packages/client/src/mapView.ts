@@ -0,0 +1,63 @@
+import type { ArenaMap } from "@tck/shared/src/protocol";
+
+const WALL_COLOR = "#3a4a5c";
+const WALL_EDGE = "rgba(160, 200, 240, 0.35)";
+const BUMPER_COLOR = "#ff5bb0";
+const SLOW_COLOR = "rgba(120, 90, 40, 0.28)";
+
+/** Slow zones, walls and bumpers of the current map, plus the arena border. Drawn in world space. */
+export const drawMap = (ctx: CanvasRenderingContext2D, map: ArenaMap, now: number) => {
+  ctx.save();
+
+  for (const zone of map.slowZones) {
+    ctx.fillStyle = SLOW_COLOR;
+    ctx.beginPath();
+    ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = "rgba(200, 150, 70, 0.35)";
+    ctx.setLineDash([6, 8]);
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  ctx.lineCap = "round";
+  for (const wall of map.walls) {
+    if (wall.type === "circle") {
+      ctx.fillStyle = WALL_COLOR;
+      ctx.beginPath();
+      ctx.arc(wall.x, wall.y, wall.radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.strokeStyle = WALL_EDGE;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    } else {
+      // A round-capped stroke matches the capsule the simulation collides with.
+      ctx.strokeStyle = WALL_EDGE;
+      ctx.lineWidth = wall.thickness + 4;
+      ctx.beginPath();
+      ctx.moveTo(wall.x1, wall.y1);
+      ctx.lineTo(wall.x2, wall.y2);
+      ctx.stroke();
+      ctx.strokeStyle = WALL_COLOR;
+      ctx.lineWidth = wall.thickness;
+      ctx.stroke();
+    }
+  }
+
+  for (const bumper of map.bumpers) {
+    const pulse = 1 + Math.sin(now / 250 + bumper.x) * 0.06;
+    ctx.fillStyle = "rgba(255, 91, 176, 0.25)";
+    ctx.beginPath();
+    ctx.arc(bumper.x, bumper.y, bumper.radius * pulse, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = BUMPER_COLOR;
+    ctx.lineWidth = 4;
+    ctx.stroke();
+  }
+
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.15)";
+  ctx.lineWidth = 4;
+  ctx.strokeRect(0, 0, map.width, map.height);
+  ctx.restore();
+};
@@ -0,0 +1,134 @@
+import { HASTE_DURATION, HEAVY_DURATION, PICKUP_RADIUS, SHIELD_DURATION } from "@tck/shared/src/pickups";
+import type { PickupSnapshot, PickupType, PlayerSnapshot } from "@tck/shared/src/protocol";
+
+const FLASH_MS = 900;
+const TIMER_SIZE = 34;
+
+const PICKUP_STYLES: Record<PickupType, { color: string; glyph: string; label: string }> = {
+  SHIELD: { color: "#5bd6ff", glyph: "◈", label: "Shield" },
+  HEAVY: { color: "#b08cff", glyph: "▼", label: "Heavy" },
+  HEAL: { color: "#5bffbd", glyph: "+", label: "Heal" },
+  DASH: { color: "#f7ff5b", glyph: "»", label: "Dash ready" },
+  HASTE: { color: "#ff8c2a", glyph: "⚡", label: "Haste" }
+};
+
+/** A short label floating up from where a pickup was collected. */
+export type PickupFlash = { pickup: PickupType; x: number; y: number; start: number };
+
+/** Pickups lying in the arena, bobbing gently. Drawn in world space. */
+export const drawPickups = (ctx: CanvasRenderingContext2D, pickups: PickupSnapshot[], now: number) => {
+  ctx.save();
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.font = "15px Trebuchet MS";
+  for (const pickup of pickups) {
+    const style = PICKUP_STYLES[pickup.type];
+    const bob = Math.sin(now / 300 + pickup.id) * 3;
+    ctx.beginPath();
+    ctx.arc(pickup.x, pickup.y + bob, PICKUP_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = "rgba(11, 17, 24, 0.85)";
+    ctx.fill();
+    ctx.strokeStyle = style.color;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    ctx.fillStyle = style.color;
+    ctx.fillText(style.glyph, pickup.x, pickup.y + bob + 1);
+  }
+  ctx.restore();
+};
+
+/** Rings around a player for each timed effect they carry. Drawn in world space. */
+export const drawStatusEffects = (ctx: CanvasRenderingContext2D, player: PlayerSnapshot, now: number) => {
+  if (!player.alive) return;
+  ctx.save();
+  if (player.shield > 0) {
+    ctx.strokeStyle = PICKUP_STYLES.SHIELD.color;
+    ctx.globalAlpha = 0.5 + 0.2 * Math.sin(now / 150);
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(player.x, player.y, player.radius + 10, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  if (player.heavy > 0) {
+    ctx.strokeStyle = PICKUP_STYLES.HEAVY.color;
+    ctx.globalAlpha = 0.8;
+    ctx.lineWidth = 5;
+    ctx.beginPath();
+    ctx.arc(player.x, player.y, player.radius + 2, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  if (player.haste > 0) {
+    // Streaks trailing behind the direction of travel.
+    const speed = Math.hypot(player.vx, player.vy);
+    if (speed > 1) {
+      const nx = player.vx / speed;
+      const ny = player.vy / speed;
+      ctx.strokeStyle = PICKUP_STYLES.HASTE.color;
+      ctx.globalAlpha = 0.6;
+      ctx.lineWidth = 2;
+      for (const side of [-1, 0, 1]) {
+        const ox = player.x - nx * player.radius - ny * side * 8;
+        const oy = player.y - ny * player.radius + nx * side * 8;
+        ctx.beginPath();
+        ctx.moveTo(ox, oy);
+        ctx.lineTo(ox - nx * 18, oy - ny * 18);
+        ctx.stroke();
+      }
+    }
+  }
+  ctx.restore();
+};
+
+export const drawPickupFlashes = (ctx: CanvasRenderingContext2D, flashes: PickupFlash[], now: number) => {
+  ctx.save();
+  ctx.textAlign = "center";
+  ctx.font = "14px Trebuchet MS";
+  for (const flash of flashes) {
+    const life = (now - flash.start) / FLASH_MS;
+    if (life >= 1) continue;
+    const style = PICKUP_STYLES[flash.pickup];
+    ctx.globalAlpha = 1 - life;
+    ctx.fillStyle = style.color;
+    ctx.fillText(`${style.glyph} ${style.label}`, flash.x, flash.y - 30 - life * 24);
+  }
+  ctx.restore();
+};
+
+export const isFlashDone = (flash: PickupFlash, now: number) => now - flash.start >= FLASH_MS;
+
+/** Icons with a draining ring for the local player's timed effects. Drawn in screen space. */
+export const drawEffectTimers = (
+  ctx: CanvasRenderingContext2D,
+  player: PlayerSnapshot,
+  viewport: { width: number; height: number }
+) => {
+  const timers: Array<[PickupType, number, number]> = [
+    ["SHIELD", player.shield, SHIELD_DURATION],
+    ["HEAVY", player.heavy, HEAVY_DURATION],
+    ["HASTE", player.haste, HASTE_DURATION]
+  ];
+  const active = timers.filter(([, left]) => left > 0);
+  ctx.save();
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  active.forEach(([type, left, total], index) => {
+    const style = PICKUP_STYLES[type];
+    const x = 24 + TIMER_SIZE * 0.5 + index * (TIMER_SIZE + 12);
+    const y = viewport.height - 24 - TIMER_SIZE * 0.5;
+    ctx.fillStyle = "rgba(11, 17, 24, 0.8)";
+    ctx.beginPath();
+    ctx.arc(x, y, TIMER_SIZE * 0.5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = style.color;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(x, y, TIMER_SIZE * 0.5, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * Math.min(1, left / total));
+    ctx.stroke();
+    ctx.fillStyle = style.color;
+    ctx.font = "16px Trebuchet MS";
+    ctx.fillText(style.glyph, x, y);
+    ctx.font = "11px Trebuchet MS";
+    ctx.fillText(`${Math.ceil(left)}s`, x, y + TIMER_SIZE * 0.5 + 9);
+  });
+  ctx.restore();
+};
@@ -0,0 +1,133 @@
+import type {
+  ArenaMap,
+  PlayerInput,
+  PlayerSnapshot,
+  RoomRules,
+  SafeCircleSnapshot
+} from "@tck/shared/src/protocol";
+import type { ArenaModifiers } from "@tck/shared/src/events";
+import { createBody, stepBody, type Body } from "@tck/shared/src/simulation";
+
+const MAX_PENDING = 120;
+const CORRECTION_DECAY = 12;
+
+/**
+ * Local-player prediction state. `body` is stepped with the same physics as the
+ * server for every input we send; `pending` keeps the inputs the server has
+ * not acknowledged yet so they can be replayed on top of each snapshot.
+ */
+export type Predictor = {
+  body: Body | null;
+  previous: { x: number; y: number };
+  pending: Array<{ seq: number; input: PlayerInput }>;
+  stepAt: number;
+  correction: { x: number; y: number };
+};
+
+export const createPredictor = (): Predictor => ({
+  body: null,
+  previous: { x: 0, y: 0 },
+  pending: [],
+  stepAt: 0,
+  correction: { x: 0, y: 0 }
+});
+
+export const resetPredictor = (predictor: Predictor) => {
+  predictor.body = null;
+  predictor.pending = [];
+  predictor.correction = { x: 0, y: 0 };
+};
+
+export const predictInput = (
+  predictor: Predictor,
+  seq: number,
+  input: PlayerInput,
+  dt: number,
+  zones: SafeCircleSnapshot[],
+  rules: RoomRules,
+  modifiers: ArenaModifiers,
+  map: ArenaMap,
+  now: number
+) => {
+  const body = predictor.body;
+  if (!body) return;
+  predictor.pending.push({ seq, input });
+  if (predictor.pending.length > MAX_PENDING) {
+    predictor.pending.shift();
+  }
+  predictor.previous = { x: body.x, y: body.y };
+  predictor.stepAt = now;
+  stepBody(body, input, dt, zones, rules, modifiers, map);
+};
+
+/**
+ * Rebases the prediction on the authoritative state from a snapshot and
+ * replays every input the server has not processed yet. The visible jump is
+ * folded into `correction` and smoothed away while rendering.
+ */
+export const reconcile = (
+  predictor: Predictor,
+  snapshot: PlayerSnapshot,
+  dt: number,
+  zones: SafeCircleSnapshot[],
+  rules: RoomRules,
+  modifiers: ArenaModifiers,
+  map: ArenaMap
+) => {
+  if (!snapshot.alive) {
+    resetPredictor(predictor);
+    return;
+  }
+
+  const body = predictor.body ?? createBody(snapshot.id);
+  const beforeX = body.x;
+  const beforeY = body.y;
+  const hadBody = predictor.body !== null;
+
+  body.x = snapshot.x;
+  body.y = snapshot.y;
+  body.vx = snapshot.vx;
+  body.vy = snapshot.vy;
+  body.dashCooldown = snapshot.dashCooldown;
+  body.hp = snapshot.hp;
+  body.alive = snapshot.alive;
+  body.dominationTime = snapshot.dominationTime;
+  body.shield = snapshot.shield;
+  body.heavy = snapshot.heavy;
+  body.haste = snapshot.haste;
+
+  predictor.pending = predictor.pending.filter((entry) => entry.seq > snapshot.lastSeq);
+  for (const entry of predictor.pending) {
+    stepBody(body, entry.input, dt, zones, rules, modifiers, map);
+  }
+
+  if (hadBody) {
+    // Shift the blend window with the body and cancel the jump via correction.
+    predictor.previous.x += body.x - beforeX;
+    predictor.previous.y += body.y - beforeY;
+    predictor.correction.x += beforeX - body.x;
+    predictor.correction.y += beforeY - body.y;
+  } else {
+    predictor.previous = { x: body.x, y: body.y };
+  }
+  predictor.body = body;
+};
+
+/** Position to draw the local player at, blending between prediction steps. */
+export const getPredictedPosition = (
+  predictor: Predictor,
+  now: number,
+  stepMs: number,
+  frameDt: number
+) => {
+  const body = predictor.body;
+  if (!body) return null;
+  const decay = Math.exp(-CORRECTION_DECAY * frameDt);
+  predictor.correction.x *= decay;
+  predictor.correction.y *= decay;
+  const t = Math.min(1, Math.max(0, (now - predictor.stepAt) / stepMs));
+  return {
+    x: predictor.previous.x + (body.x - predictor.previous.x) * t + predictor.correction.x,
+    y: predictor.previous.y + (body.y - predictor.previous.y) * t + predictor.correction.y
+  };
+};
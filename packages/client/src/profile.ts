@@ -0,0 +1,59 @@
+import type { LeaderboardEntry } from "@tck/shared/src/protocol";
+
+const PROFILE_TOKEN_KEY = "tck.profileToken";
+
+/** The token from the last `welcome`, so stats follow this browser between visits. */
+export const loadProfileToken = () => {
+  try {
+    return localStorage.getItem(PROFILE_TOKEN_KEY) ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveProfileToken = (token: string) => {
+  try {
+    localStorage.setItem(PROFILE_TOKEN_KEY, token);
+  } catch {
+    // Storage can be disabled; the player just starts a fresh profile next time.
+  }
+};
+
+const formatSurvival = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const createRow = (entry: LeaderboardEntry, isSelf: boolean) => {
+  const item = document.createElement("li");
+  if (isSelf) item.className = "me";
+  const name = document.createElement("span");
+  name.textContent = `${entry.rank}. ${entry.nickname}`;
+  const stats = document.createElement("span");
+  stats.className = "tag";
+  stats.textContent = [
+    `${entry.rating}`,
+    `${entry.wins}/${entry.roundsPlayed} won`,
+    `${entry.knockouts} KO`,
+    `${Math.floor(entry.domination)}s dom`,
+    `best ${formatSurvival(entry.longestSurvivalMs)}`
+  ].join(" · ");
+  item.append(name, stats);
+  return item;
+};
+
+/** Fills `list` with the ranked profiles, adding the player's own row below if it fell outside. */
+export const renderLeaderboard = (
+  list: HTMLOListElement,
+  entries: LeaderboardEntry[],
+  self: LeaderboardEntry | null
+) => {
+  const rows = entries.map((entry) => createRow(entry, entry.rank === self?.rank));
+  if (self && !entries.some((entry) => entry.rank === self.rank)) rows.push(createRow(self, true));
+  if (rows.length === 0) {
+    const empty = document.createElement("li");
+    empty.textContent = "Nobody has finished a round yet.";
+    rows.push(empty);
+  }
+  list.replaceChildren(...rows);
+};
@@ -0,0 +1,125 @@
+import type { PlayerSnapshot, SafeCircleSnapshot } from "@tck/shared/src/protocol";
+import { getPickupSnapshots } from "@tck/shared/src/pickups";
+import {
+  createReplayCursor,
+  stepReplay,
+  type ReplayCursor,
+  type ReplayFile,
+  type ReplayTimelineEntry
+} from "@tck/shared/src/replay";
+import {
+  PLAYER_RADIUS,
+  getSafeZones,
+  type StepResult
+} from "@tck/shared/src/simulation";
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Plays a replay file back by re-running the shared simulation from its seed.
+ * Seeking backwards restarts from tick 0, which is cheap for a single round.
+ */
+export type ReplayViewer = {
+  file: ReplayFile;
+  cursor: ReplayCursor;
+  nicknames: Map<string, string>;
+  bots: Set<string>;
+  previous: Map<string, { x: number; y: number }>;
+  playing: boolean;
+  speed: number;
+  accumulatorMs: number;
+};
+
+export type ReplayStep = {
+  result: StepResult;
+  entries: ReplayTimelineEntry[];
+};
+
+export const createReplayViewer = (file: ReplayFile): ReplayViewer => ({
+  file,
+  cursor: createReplayCursor(file),
+  nicknames: new Map(file.players.map((player) => [player.id, player.nickname])),
+  bots: new Set(file.players.filter((player) => player.bot).map((player) => player.id)),
+  previous: new Map(),
+  playing: true,
+  speed: 1,
+  accumulatorMs: 0
+});
+
+const rememberPositions = (viewer: ReplayViewer) => {
+  viewer.previous.clear();
+  for (const body of viewer.cursor.state.bodies.values()) {
+    viewer.previous.set(body.id, { x: body.x, y: body.y });
+  }
+};
+
+export const seekReplay = (viewer: ReplayViewer, tick: number) => {
+  const target = Math.max(0, Math.min(viewer.file.durationTicks, Math.round(tick)));
+  if (target < viewer.cursor.state.tick) {
+    viewer.cursor = createReplayCursor(viewer.file);
+  }
+  while (viewer.cursor.state.tick < target && stepReplay(viewer.cursor)) {
+    // Fast-forward silently; effects are only shown during normal playback.
+  }
+  viewer.accumulatorMs = 0;
+  rememberPositions(viewer);
+};
+
+/** Advances playback by wall-clock time, reporting each simulated step. */
+export const advanceReplay = (
+  viewer: ReplayViewer,
+  elapsedMs: number,
+  onStep: (step: ReplayStep) => void
+) => {
+  if (!viewer.playing) return;
+  const stepMs = 1000 / viewer.file.tickRate;
+  viewer.accumulatorMs += elapsedMs * viewer.speed;
+  while (viewer.accumulatorMs >= stepMs) {
+    viewer.accumulatorMs -= stepMs;
+    rememberPositions(viewer);
+    const step = stepReplay(viewer.cursor);
+    if (!step) {
+      viewer.playing = false;
+      viewer.accumulatorMs = 0;
+      return;
+    }
+    onStep(step);
+  }
+};
+
+export const getReplayFrame = (viewer: ReplayViewer) => {
+  const state = viewer.cursor.state;
+  const t = Math.min(1, viewer.accumulatorMs / (1000 / viewer.file.tickRate));
+  const players: PlayerSnapshot[] = Array.from(state.bodies.values()).map((body) => {
+    const previous = viewer.previous.get(body.id) ?? body;
+    return {
+      id: body.id,
+      x: previous.x + (body.x - previous.x) * t,
+      y: previous.y + (body.y - previous.y) * t,
+      vx: body.vx,
+      vy: body.vy,
+      radius: PLAYER_RADIUS,
+      nickname: viewer.nicknames.get(body.id) ?? body.id,
+      hp: body.hp,
+      alive: body.alive,
+      dominationTime: body.dominationTime,
+      dashCooldown: body.dashCooldown,
+      lastSeq: -1,
+      bot: viewer.bots.has(body.id),
+      team: body.team,
+      shield: body.shield,
+      heavy: body.heavy,
+      haste: body.haste,
+      knockouts: body.knockouts,
+      assists: body.assists
+    };
+  });
+  const circles: SafeCircleSnapshot[] = getSafeZones(state.circle);
+  return {
+    players,
+    circles,
+    event: state.events.active?.event ?? null,
+    pickups: getPickupSnapshots(state.pickups),
+    remainingMs: Math.max(0, viewer.file.rules.roundDurationMs - state.elapsedMs)
+  };
+};
@@ -0,0 +1,83 @@
+import type { RoomSummary } from "@tck/shared/src/protocol";
+import { parseServerMessage } from "@tck/shared/src/validation";
+
+const REFRESH_MS = 3000;
+
+/**
+ * A socket of its own that asks for `roomList` every few seconds while the
+ * join panel is up. It never joins, so it is simply dropped once the player does.
+ */
+export type RoomBrowser = {
+  socket: WebSocket | null;
+  timer: number;
+};
+
+export const createRoomBrowser = (): RoomBrowser => ({ socket: null, timer: 0 });
+
+export const startRoomBrowser = (
+  browser: RoomBrowser,
+  url: string,
+  onRooms: (rooms: RoomSummary[]) => void
+) => {
+  if (browser.socket) return;
+  const socket = new WebSocket(url);
+  browser.socket = socket;
+  const refresh = () => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "listRooms" }));
+  };
+  socket.addEventListener("open", () => {
+    refresh();
+    browser.timer = window.setInterval(refresh, REFRESH_MS);
+  });
+  socket.addEventListener("message", (event) => {
+    if (typeof event.data !== "string") return;
+    const parsed = parseServerMessage(event.data);
+    if (parsed.ok && parsed.value.type === "roomList") onRooms(parsed.value.rooms);
+  });
+  socket.addEventListener("close", () => {
+    if (browser.socket !== socket) return;
+    window.clearInterval(browser.timer);
+    browser.socket = null;
+  });
+};
+
+export const stopRoomBrowser = (browser: RoomBrowser) => {
+  window.clearInterval(browser.timer);
+  const socket = browser.socket;
+  browser.socket = null;
+  socket?.close();
+};
+
+const PHASE_LABELS: Record<RoomSummary["phase"], string> = {
+  lobby: "in lobby",
+  countdown: "starting",
+  playing: "playing",
+  intermission: "between rounds",
+  ended: "match over"
+};
+
+/** Lists the rooms; clicking one hands its code to `onPick`. */
+export const renderRoomList = (list: HTMLUListElement, rooms: RoomSummary[], onPick: (code: string) => void) => {
+  if (rooms.length === 0) {
+    const empty = document.createElement("li");
+    empty.textContent = "No public rooms yet. Quick play opens one.";
+    list.replaceChildren(empty);
+    return;
+  }
+  list.replaceChildren(
+    ...rooms.map((room) => {
+      const item = document.createElement("li");
+      item.className = "pick";
+      const name = document.createElement("span");
+      name.textContent = room.code;
+      const details = document.createElement("span");
+      details.className = "tag";
+      details.textContent = `${room.players} ${room.players === 1 ? "player" : "players"} · ${
+        PHASE_LABELS[room.phase]
+      } · ${room.preset} · ${room.map}`;
+      item.append(name, details);
+      item.addEventListener("click", () => onPick(room.code));
+      return item;
+    })
+  );
+};
@@ -0,0 +1,80 @@
+import type { MatchStanding } from "@tck/shared/src/protocol";
+import { teamColor, teamName } from "./teams";
+
+const ROW_HEIGHT = 26;
+const PANEL_WIDTH = 420;
+
+/**
+ * Match table shown between rounds and after the last one. `highlightId`
+ * marks the local player; `pings` are the round trips players reported;
+ * `notes` are extra lines under the table.
+ */
+export const drawStandings = (
+  ctx: CanvasRenderingContext2D,
+  viewport: { width: number; height: number },
+  options: {
+    title: string;
+    subtitle: string;
+    standings: MatchStanding[];
+    highlightId: string;
+    pings?: Map<string, number | null>;
+    notes?: string[];
+  }
+) => {
+  const { title, subtitle, standings, highlightId, pings, notes = [] } = options;
+  const height = 96 + standings.length * ROW_HEIGHT + notes.length * 20 + 16;
+  const x = (viewport.width - PANEL_WIDTH) * 0.5;
+  const y = Math.max(90, (viewport.height - height) * 0.5);
+
+  ctx.save();
+  ctx.fillStyle = "rgba(11, 17, 24, 0.88)";
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.25)";
+  ctx.lineWidth = 2;
+  ctx.fillRect(x, y, PANEL_WIDTH, height);
+  ctx.strokeRect(x, y, PANEL_WIDTH, height);
+
+  ctx.textAlign = "center";
+  ctx.fillStyle = "#f7ff5b";
+  ctx.font = "24px Trebuchet MS";
+  ctx.fillText(title, viewport.width * 0.5, y + 34);
+  ctx.fillStyle = "#9fb3c8";
+  ctx.font = "14px Trebuchet MS";
+  ctx.fillText(subtitle, viewport.width * 0.5, y + 58);
+
+  ctx.font = "15px Trebuchet MS";
+  standings.forEach((standing, index) => {
+    const rowY = y + 90 + index * ROW_HEIGHT;
+    ctx.fillStyle = standing.playerId === highlightId ? "#35b1ff" : "#e5f1ff";
+    ctx.textAlign = "left";
+    ctx.fillText(`${index + 1}. ${standing.nickname}`, x + 24, rowY);
+    if (standing.team > 0) {
+      ctx.save();
+      ctx.fillStyle = teamColor(standing.team) ?? "#e5f1ff";
+      ctx.font = "12px Trebuchet MS";
+      ctx.fillText(teamName(standing.team), x + 210, rowY);
+      ctx.restore();
+    }
+    ctx.textAlign = "right";
+    const ping = pings?.get(standing.playerId);
+    if (ping !== undefined && ping !== null) {
+      ctx.save();
+      ctx.fillStyle = "#9fb3c8";
+      ctx.font = "12px Trebuchet MS";
+      ctx.fillText(`${ping} ms`, x + PANEL_WIDTH - 130, rowY);
+      ctx.restore();
+    }
+    ctx.fillText(
+      `${standing.wins} ${standing.wins === 1 ? "win" : "wins"}   ${Math.floor(standing.domination)}s`,
+      x + PANEL_WIDTH - 24,
+      rowY
+    );
+  });
+
+  ctx.textAlign = "center";
+  ctx.fillStyle = "#9fb3c8";
+  ctx.font = "13px Trebuchet MS";
+  notes.forEach((note, index) => {
+    ctx.fillText(note, viewport.width * 0.5, y + 96 + standings.length * ROW_HEIGHT + index * 20);
+  });
+  ctx.restore();
+};
@@ -0,0 +1,16 @@
+const TEAM_COLORS = ["#ff5b5b", "#5b9bff", "#5bffbd", "#f7ff5b"];
+
+/** Colour of a 1-based team; free-for-all players (team 0) have none. */
+export const teamColor = (team: number) => (team > 0 ? TEAM_COLORS[(team - 1) % TEAM_COLORS.length] : null);
+
+export const teamName = (team: number) => `Team ${team}`;
+
+/** Domination summed per team, in team order. */
+export const getTeamTotals = (players: Array<{ team: number; dominationTime: number }>) => {
+  const totals = new Map<number, number>();
+  for (const player of players) {
+    if (player.team === 0) continue;
+    totals.set(player.team, (totals.get(player.team) ?? 0) + player.dominationTime);
+  }
+  return Array.from(totals).sort(([a], [b]) => a - b);
+};
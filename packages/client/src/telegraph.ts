@@ -0,0 +1,120 @@
+import type { ActiveEvent, IncomingEvent, SafeCircleSnapshot } from "@tck/shared/src/protocol";
+import type { Camera } from "./camera";
+
+const TELEGRAPH_COLOR = "rgba(255, 140, 42, 0.85)";
+const ARROW_MARGIN = 36;
+
+/** The next arena event the server has warned about, timed against the local clock. */
+export type Telegraph = {
+  incoming: IncomingEvent;
+  receivedAt: number;
+  /** How fast the countdown runs; replays scale it by the playback speed. */
+  rate: number;
+};
+
+export const createTelegraph = (incoming: IncomingEvent, now: number, rate = 1): Telegraph => ({
+  incoming,
+  receivedAt: now,
+  rate
+});
+
+export const getTelegraphEta = (telegraph: Telegraph, now: number) =>
+  Math.max(0, telegraph.incoming.etaMs - (now - telegraph.receivedAt) * telegraph.rate);
+
+/** Keeps the warning until its event starts or the countdown runs out. */
+export const clearTelegraph = (telegraph: Telegraph | null, event: ActiveEvent | null, now: number) => {
+  if (!telegraph) return null;
+  if (event && event.type === telegraph.incoming.eventType) return null;
+  return getTelegraphEta(telegraph, now) > 0 ? telegraph : null;
+};
+
+const getTelegraphCenter = (telegraph: Telegraph, circle: SafeCircleSnapshot) =>
+  telegraph.incoming.target ?? { x: circle.x, y: circle.y };
+
+/** Ghost of the coming safe zone plus a countdown ring. Drawn in world space. */
+export const drawTelegraph = (
+  ctx: CanvasRenderingContext2D,
+  telegraph: Telegraph,
+  circle: SafeCircleSnapshot,
+  now: number
+) => {
+  const { incoming } = telegraph;
+  const eta = getTelegraphEta(telegraph, now);
+  const center = getTelegraphCenter(telegraph, circle);
+  const radius = incoming.radius ?? circle.radius;
+
+  ctx.save();
+  ctx.strokeStyle = TELEGRAPH_COLOR;
+  if (incoming.radius !== undefined) {
+    ctx.setLineDash([10, 8]);
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  const ringRadius = incoming.target ? 26 : radius + 10;
+  const remaining = incoming.etaMs > 0 ? eta / incoming.etaMs : 0;
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  ctx.arc(center.x, center.y, ringRadius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * remaining);
+  ctx.stroke();
+
+  ctx.fillStyle = "#ff8c2a";
+  ctx.font = "14px Trebuchet MS";
+  ctx.textAlign = "center";
+  const labelY = incoming.target ? center.y + 5 : center.y - ringRadius - 8;
+  ctx.fillText(`${incoming.eventType} ${(eta / 1000).toFixed(1)}s`, center.x, labelY);
+  ctx.restore();
+};
+
+/** Arrow at the screen edge pointing at a target the camera cannot see. Drawn in screen space. */
+export const drawTelegraphArrow = (
+  ctx: CanvasRenderingContext2D,
+  telegraph: Telegraph,
+  camera: Camera,
+  viewport: { width: number; height: number },
+  now: number
+) => {
+  const target = telegraph.incoming.target;
+  if (!target) return;
+  const halfW = viewport.width * 0.5;
+  const halfH = viewport.height * 0.5;
+  const dx = (target.x - camera.x) * camera.zoom;
+  const dy = (target.y - camera.y) * camera.zoom;
+  if (Math.abs(dx) < halfW - ARROW_MARGIN && Math.abs(dy) < halfH - ARROW_MARGIN) return;
+
+  // Scale the offset down until it touches the inset viewport edge.
+  const scale = Math.min(
+    (halfW - ARROW_MARGIN) / Math.max(Math.abs(dx), 1),
+    (halfH - ARROW_MARGIN) / Math.max(Math.abs(dy), 1)
+  );
+  const x = halfW + dx * scale;
+  const y = halfH + dy * scale;
+  const angle = Math.atan2(dy, dx);
+
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(angle);
+  ctx.fillStyle = TELEGRAPH_COLOR;
+  ctx.beginPath();
+  ctx.moveTo(16, 0);
+  ctx.lineTo(-10, -11);
+  ctx.lineTo(-4, 0);
+  ctx.lineTo(-10, 11);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+
+  ctx.save();
+  ctx.fillStyle = "#ff8c2a";
+  ctx.font = "12px Trebuchet MS";
+  ctx.textAlign = "center";
+  ctx.fillText(
+    `${(getTelegraphEta(telegraph, now) / 1000).toFixed(1)}s`,
+    x - Math.cos(angle) * 26,
+    y - Math.sin(angle) * 26 + 4
+  );
+  ctx.restore();
+};
@@ -0,0 +1,246 @@
+import { getArenaModifiers } from "@tck/shared/src/events";
+import type { ActiveEvent, BotDifficulty, PlayerInput } from "@tck/shared/src/protocol";
+import {
+  IDLE_INPUT,
+  PLAYER_RADIUS,
+  getNearestZone,
+  getSafeZones,
+  isOutside,
+  isTeammate,
+  type Body,
+  type WorldState
+} from "@tck/shared/src/simulation";
+
+/** How sharp a bot plays; every difficulty runs the same behaviours. */
+export type BotProfile = {
+  /** Ticks between decisions; the last input is held in between. */
+  reactionTicks: number;
+  /** Random aim error in radians, applied to every decision. */
+  aimError: number;
+  chaseRange: number;
+  /** Minimum cosine between facing and target before dashing. */
+  dashAlignment: number;
+  dashRange: number;
+  /** Fraction of the safe radius the bot tries to stay within. */
+  comfortRadius: number;
+  /** How long a SHIFT, RESIZE or SPLIT keeps the bot heading for safety. */
+  panicMs: number;
+  /** Whether the bot compensates for INVERT or steers as if nothing changed. */
+  readsInversion: boolean;
+};
+
+export const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: {
+    reactionTicks: 8,
+    aimError: 0.6,
+    chaseRange: 140,
+    dashAlignment: 0.98,
+    dashRange: 90,
+    comfortRadius: 0.8,
+    panicMs: 600,
+    readsInversion: false
+  },
+  normal: {
+    reactionTicks: 4,
+    aimError: 0.3,
+    chaseRange: 240,
+    dashAlignment: 0.94,
+    dashRange: 140,
+    comfortRadius: 0.6,
+    panicMs: 1200,
+    readsInversion: true
+  },
+  hard: {
+    reactionTicks: 2,
+    aimError: 0.1,
+    chaseRange: 360,
+    dashAlignment: 0.9,
+    dashRange: 190,
+    comfortRadius: 0.45,
+    panicMs: 2000,
+    readsInversion: true
+  }
+};
+
+/** A weighted pull in some direction, optionally asking for a dash this tick. */
+export type Steering = { x: number; y: number; weight: number; dash?: boolean };
+
+export type BotContext = {
+  self: Body;
+  state: WorldState;
+  profile: BotProfile;
+  /** Time left heading for safety after a SHIFT, RESIZE or SPLIT. */
+  panicMs: number;
+};
+
+/** One concern of a bot's decision, blended with the others by weight. */
+export type BotBehaviour = (context: BotContext) => Steering | null;
+
+export type Bot = {
+  difficulty: BotDifficulty;
+  behaviours: BotBehaviour[];
+  input: PlayerInput;
+  ticksUntilDecision: number;
+  panicMs: number;
+};
+
+const towards = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const dist = Math.hypot(dx, dy);
+  return dist === 0 ? { x: 0, y: 0, dist } : { x: dx / dist, y: dy / dist, dist };
+};
+
+/** Where safety will be: the SHIFT target while one is in flight, else the nearest zone. */
+const safePoint = (self: Body, state: WorldState) =>
+  state.circle.shift.active
+    ? { x: state.circle.shift.targetX, y: state.circle.shift.targetY }
+    : getNearestZone(self, getSafeZones(state.circle));
+
+const findPrey = ({ self, state, profile }: BotContext) => {
+  let best: Body | null = null;
+  let bestDist = profile.chaseRange;
+  for (const other of state.bodies.values()) {
+    if (other.id === self.id || !other.alive || isTeammate(self, other)) continue;
+    const dist = Math.hypot(other.x - self.x, other.y - self.y);
+    if (dist < bestDist) {
+      best = other;
+      bestDist = dist;
+    }
+  }
+  return best;
+};
+
+/** Drift back towards the centre, harder the closer the bot is to the edge. */
+export const stayInCircle: BotBehaviour = ({ self, state, profile }) => {
+  const zone = getNearestZone(self, getSafeZones(state.circle));
+  const dir = towards(self, safePoint(self, state));
+  const comfort = Math.min(zone.innerRadius, zone.radius * profile.comfortRadius);
+  if (dir.dist < comfort * 0.5) return null;
+  return { x: dir.x, y: dir.y, weight: dir.dist / Math.max(comfort, PLAYER_RADIUS) };
+};
+
+/** Ram the nearest player, aiming where they are about to be. */
+export const chasePlayers: BotBehaviour = (context) => {
+  const prey = findPrey(context);
+  if (!prey) return null;
+  const dir = towards(context.self, { x: prey.x + prey.vx * 0.15, y: prey.y + prey.vy * 0.15 });
+  return { x: dir.x, y: dir.y, weight: 0.9 };
+};
+
+/** Dash once the bot is already moving straight at someone close. */
+export const dashWhenAligned: BotBehaviour = (context) => {
+  const { self, profile } = context;
+  if (self.dashCooldown > 0) return null;
+  const prey = findPrey(context);
+  if (!prey) return null;
+  const dir = towards(self, prey);
+  if (dir.dist > profile.dashRange) return null;
+  const alignment = self.lastDir.x * dir.x + self.lastDir.y * dir.y;
+  return alignment >= profile.dashAlignment ? { x: 0, y: 0, weight: 0, dash: true } : null;
+};
+
+/** Detour for a nearby pickup, as long as it lies inside a safe zone. */
+export const grabPickups: BotBehaviour = ({ self, state, profile }) => {
+  const zones = getSafeZones(state.circle);
+  let best: { x: number; y: number; dist: number } | null = null;
+  for (const pickup of state.pickups.items) {
+    if (isOutside(pickup, zones)) continue;
+    const dir = towards(self, pickup);
+    if (dir.dist < profile.chaseRange && (!best || dir.dist < best.dist)) best = dir;
+  }
+  return best ? { x: best.x, y: best.y, weight: 1.2 } : null;
+};
+
+/** After a SHIFT, RESIZE or SPLIT, drop everything and run for the new safe zone. */
+export const fleeEdge: BotBehaviour = ({ self, state, panicMs }) => {
+  if (panicMs <= 0) return null;
+  const dir = towards(self, safePoint(self, state));
+  if (dir.dist < PLAYER_RADIUS) return null;
+  return { x: dir.x, y: dir.y, weight: 4 };
+};
+
+export const DEFAULT_BOT_BEHAVIOURS: BotBehaviour[] = [
+  stayInCircle,
+  chasePlayers,
+  grabPickups,
+  dashWhenAligned,
+  fleeEdge
+];
+
+export const createBot = (
+  difficulty: BotDifficulty,
+  behaviours: BotBehaviour[] = DEFAULT_BOT_BEHAVIOURS
+): Bot => ({
+  difficulty,
+  behaviours,
+  input: { ...IDLE_INPUT },
+  ticksUntilDecision: 0,
+  panicMs: 0
+});
+
+/** Feed the events from the last step so bots can react to them on the next decision. */
+export const observeBotEvents = (bot: Bot, events: ActiveEvent[]) => {
+  for (const event of events) {
+    if (event.type === "SHIFT" || event.type === "RESIZE" || event.type === "SPLIT") {
+      bot.panicMs = BOT_PROFILES[bot.difficulty].panicMs;
+      bot.ticksUntilDecision = 0;
+    }
+  }
+};
+
+// Snap to the eight directions a keyboard can express; sin(22.5°) splits them evenly.
+const AXIS_THRESHOLD = 0.38;
+
+const toInput = (x: number, y: number, dash: boolean): PlayerInput => ({
+  up: y < -AXIS_THRESHOLD,
+  down: y > AXIS_THRESHOLD,
+  left: x < -AXIS_THRESHOLD,
+  right: x > AXIS_THRESHOLD,
+  dash
+});
+
+/**
+ * Produces this tick's input for a bot. The result goes through the same
+ * input path as a human's, so bots obey exactly the same physics.
+ */
+export const decideBotInput = (bot: Bot, self: Body, state: WorldState, dt: number): PlayerInput => {
+  bot.panicMs = Math.max(0, bot.panicMs - dt * 1000);
+  if (!self.alive) {
+    bot.input = { ...IDLE_INPUT };
+    return bot.input;
+  }
+  if (bot.ticksUntilDecision > 0) {
+    bot.ticksUntilDecision -= 1;
+    bot.input = { ...bot.input, dash: false };
+    return bot.input;
+  }
+
+  const profile = BOT_PROFILES[bot.difficulty];
+  bot.ticksUntilDecision = profile.reactionTicks - 1;
+  const context: BotContext = { self, state, profile, panicMs: bot.panicMs };
+
+  let x = 0;
+  let y = 0;
+  let dash = false;
+  for (const behaviour of bot.behaviours) {
+    const steering = behaviour(context);
+    if (!steering) continue;
+    x += steering.x * steering.weight;
+    y += steering.y * steering.weight;
+    dash ||= steering.dash === true;
+  }
+
+  if (x === 0 && y === 0) {
+    bot.input = { ...IDLE_INPUT, dash };
+    return bot.input;
+  }
+  if (profile.readsInversion && getArenaModifiers(state.events.active?.event).invertInput) {
+    x = -x;
+    y = -y;
+  }
+  // Not the room RNG: bot inputs are recorded like anyone's, so replays stay exact.
+  const angle = Math.atan2(y, x) + (Math.random() * 2 - 1) * profile.aimError;
+  bot.input = toInput(Math.cos(angle), Math.sin(angle), dash);
+  return bot.input;
+};
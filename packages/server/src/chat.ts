@@ -0,0 +1,48 @@
+import { MAX_CHAT_LENGTH } from "@tck/shared/src/chat";
+
+/** A token bucket shared by a player's emotes and chat lines. */
+export type ChatLimit = { tokens: number; updatedAtMs: number };
+
+// A burst of four, then one message every two seconds.
+const CHAT_BURST = 4;
+const CHAT_REFILL_MS = 2000;
+
+// Word starts that get masked, in any case and with anything after them.
+const BLOCKED_STEMS = [
+  "fuck",
+  "shit",
+  "bitch",
+  "cunt",
+  "asshole",
+  "bastard",
+  "whore",
+  "slut",
+  "хуй",
+  "хуе",
+  "пизд",
+  "бля",
+  "ебат",
+  "ебан",
+  "сука"
+];
+const BLOCKED = new RegExp(`(?<![\\p{L}\\p{N}])(?:${BLOCKED_STEMS.join("|")})[\\p{L}\\p{N}]*`, "giu");
+
+export const createChatLimit = (nowMs: number): ChatLimit => ({ tokens: CHAT_BURST, updatedAtMs: nowMs });
+
+/** Spends one message; false when the player has to wait. */
+export const takeChatToken = (limit: ChatLimit, nowMs: number) => {
+  limit.tokens = Math.min(CHAT_BURST, limit.tokens + (nowMs - limit.updatedAtMs) / CHAT_REFILL_MS);
+  limit.updatedAtMs = nowMs;
+  if (limit.tokens < 1) return false;
+  limit.tokens -= 1;
+  return true;
+};
+
+/** Squeezes whitespace, drops control characters and masks blocked words; empty when nothing is left. */
+export const cleanChat = (text: string) =>
+  text
+    .replace(/\s+/g, " ")
+    .replace(/\p{Cc}/gu, "")
+    .trim()
+    .slice(0, MAX_CHAT_LENGTH)
+    .replace(BLOCKED, (word) => "*".repeat(word.length));
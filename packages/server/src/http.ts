@@ -0,0 +1,152 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { RoomPhase, RoomVisibility } from "@tck/shared/src/protocol";
+
+/** One room as listed by `GET /rooms`. */
+export type RoomListing = {
+  code: string;
+  visibility: RoomVisibility;
+  locked: boolean;
+  hasPassword: boolean;
+  phase: RoomPhase;
+  /** Round time while a round runs, 0 otherwise. */
+  elapsedMs: number;
+  /** Smoothed cost of the room's share of a tick. */
+  tickMs: number;
+  preset: string;
+  map: string;
+  players: Array<{
+    id: string;
+    nickname: string;
+    bot: boolean;
+    spectator: boolean;
+    connected: boolean;
+    team: number;
+  }>;
+};
+
+/** Null when the action was carried out, otherwise why not. */
+export type AdminFailure = { status: 404 | 409; error: string } | null;
+
+export type AdminActions = {
+  closeRoom(code: string): AdminFailure;
+  kickPlayer(code: string, playerId: string): AdminFailure;
+  endRound(code: string): AdminFailure;
+};
+
+export type HttpOptions = {
+  listRooms(): RoomListing[];
+  renderMetrics(): string;
+  admin: AdminActions;
+  /** Admin routes answer 403 while this is empty. */
+  adminToken: string;
+};
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { "content-type": "application/json" });
+  response.end(JSON.stringify(body));
+};
+
+const sendText = (response: ServerResponse, status: number, body: string, type = "text/plain") => {
+  response.writeHead(status, { "content-type": type });
+  response.end(body);
+};
+
+// Hashing first makes the comparison constant-time whatever the lengths.
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+const isAuthorized = (request: IncomingMessage, token: string) => {
+  const header = request.headers.authorization ?? "";
+  const given = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  return timingSafeEqual(digest(given), digest(token));
+};
+
+/** Null for a malformed escape, which `decodeURIComponent` would throw on. */
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+/** Null when the request target is not a valid URL path. */
+const parsePathname = (url: string) => {
+  try {
+    return new URL(url, "http://localhost").pathname;
+  } catch {
+    return null;
+  }
+};
+
+const ADMIN_ROUTE = /^\/admin\/rooms\/([^/]+)\/(?:(close|end-round)|players\/([^/]+)\/kick)$/;
+
+const runAdmin = (options: HttpOptions, request: IncomingMessage, response: ServerResponse, pathname: string) => {
+  if (!options.adminToken) {
+    sendJson(response, 403, { error: "Admin actions are disabled; set ADMIN_TOKEN to enable them." });
+    return;
+  }
+  if (!isAuthorized(request, options.adminToken)) {
+    sendJson(response, 401, { error: "Missing or wrong admin token." });
+    return;
+  }
+  const match = ADMIN_ROUTE.exec(pathname);
+  if (!match) {
+    sendJson(response, 404, { error: "Unknown admin action." });
+    return;
+  }
+  if (request.method !== "POST") {
+    sendJson(response, 405, { error: "Admin actions must be POSTed." });
+    return;
+  }
+  const code = decodeSegment(match[1])?.toUpperCase();
+  const playerId = match[3] === undefined ? "" : decodeSegment(match[3]);
+  if (code === undefined || playerId === null) {
+    sendJson(response, 400, { error: "Malformed escape in the admin path." });
+    return;
+  }
+  const failure =
+    match[2] === "close"
+      ? options.admin.closeRoom(code)
+      : match[2] === "end-round"
+        ? options.admin.endRound(code)
+        : options.admin.kickPlayer(code, playerId);
+  if (failure) {
+    sendJson(response, failure.status, { error: failure.error });
+    return;
+  }
+  sendJson(response, 200, { ok: true });
+};
+
+/**
+ * Serves the read-only status routes and token-protected admin actions on the
+ * same port as the WebSocket server, which takes the upgrade requests.
+ */
+export const createHttpHandler = (options: HttpOptions) => (request: IncomingMessage, response: ServerResponse) => {
+  const pathname = parsePathname(request.url ?? "/");
+  if (pathname === null) {
+    sendJson(response, 400, { error: "Malformed request path." });
+    return;
+  }
+  if (pathname.startsWith("/admin/")) {
+    runAdmin(options, request, response, pathname);
+    return;
+  }
+  if (request.method !== "GET") {
+    sendJson(response, 405, { error: "Only GET is supported here." });
+    return;
+  }
+  if (pathname === "/healthz") {
+    sendText(response, 200, "ok\n");
+    return;
+  }
+  if (pathname === "/rooms") {
+    sendJson(response, 200, { rooms: options.listRooms() });
+    return;
+  }
+  if (pathname === "/metrics") {
+    sendText(response, 200, options.renderMetrics(), "text/plain; version=0.0.4");
+    return;
+  }
+  sendJson(response, 404, { error: "Not found." });
+};
@@ -1,608 +1,1380 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
 import { WebSocketServer, WebSocket } from "ws";
 import type {
   ActiveEvent,
-  ClientMessage,
+  BotDifficulty,
+  ErrorCode,
+  LobbyPlayer,
   PlayerInput,
-  SafeCircleSnapshot,
+  RoomPhase,
+  RoomRules,
+  RoomSummary,
+  RoomVisibility,
+  RoundEndReason,
   ServerMessage,
-  WorldConfig
+  SnapshotEncoding
 } from "@tck/shared/src/protocol";
+import {
+  IDLE_INPUT,
+  PLAYER_RADIUS,
+  createBody,
+  createWorldState,
+  getSafeZones,
+  resetWorld,
+  spawnBody,
+  stepWorld,
+  type Body,
+  type Knockout,
+  type WorldState
+} from "@tck/shared/src/simulation";
+import { getPickupSnapshots } from "@tck/shared/src/pickups";
+import { createRng, type Rng } from "@tck/shared/src/rng";
+import {
+  acknowledgeSnapshot,
+  createSnapshotEncoder,
+  encodeSnapshot,
+  type SnapshotEncoder,
+  type SnapshotMessage
+} from "@tck/shared/src/snapshotCodec";
+import { RULE_PRESETS, resolveRules } from "@tck/shared/src/rules";
+import { parseClientMessage } from "@tck/shared/src/validation";
+import { createBot, decideBotInput, observeBotEvents, type Bot } from "./bots.js";
+import { cleanChat, createChatLimit, takeChatToken, type ChatLimit } from "./chat.js";
+import {
+  createMatch,
+  enterMatch,
+  getChampion,
+  getStandings,
+  isMatchOver,
+  recordRound,
+  summarizeMatch,
+  type Match
+} from "./match.js";
+import { createHttpHandler, type AdminFailure, type RoomListing } from "./http.js";
+import { DEFAULT_MAP_DIR, isPlayableMap, loadMaps, pickMap } from "./maps.js";
+import { startFixedLoop } from "./loop.js";
+import {
+  createMetrics,
+  createRoomTickStats,
+  recordMessageReceived,
+  recordMessageSent,
+  recordRoomTick,
+  recordSnapshotBytes,
+  recordTick,
+  recordTicksSkipped,
+  renderMetrics,
+  rollMetrics,
+  type RoomTickStats
+} from "./metrics.js";
+import {
+  createProfile,
+  findProfile,
+  getLeaderboard,
+  loadProfiles,
+  recordProfileRound,
+  saveProfiles,
+  type Profile
+} from "./profiles.js";
+import { createRecorder, recordInputs, recordTimeline, saveReplay, type Recorder } from "./recorder.js";
 
 type Player = {
   id: string;
   nickname: string;
-  ws: WebSocket;
+  /** Null for bots. */
+  ws: WebSocket | null;
   input: PlayerInput;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  lastDir: { x: number; y: number };
-  dashCooldown: number;
-  hp: number;
-  alive: boolean;
-  dominationTime: number;
-};
-
-type CircleState = {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  driftSpeed: number;
-  driftAccel: number;
-  driftTimer: number;
-  baseRadius: number;
-  minRadius: number;
-  maxRadius: number;
-  shrinkRate: number;
-  innerFactor: number;
-  shift: {
-    active: boolean;
-    startX: number;
-    startY: number;
-    targetX: number;
-    targetY: number;
-    duration: number;
-    elapsed: number;
-  };
-  pulse: {
-    active: boolean;
-    duration: number;
-    elapsed: number;
-    amplitude: number;
-  };
+  /** Inputs received but not yet simulated, applied one per tick in `seq` order. */
+  inputQueue: Array<{ seq: number; input: PlayerInput }>;
+  lastSeq: number;
+  ready: boolean;
+  spectator: boolean;
+  snapshotEncoding: SnapshotEncoding;
+  snapshotEncoder: SnapshotEncoder;
+  resumeToken: string;
+  connected: boolean;
+  /** Time left to resume after the socket dropped; the player is removed at zero. */
+  graceMs: number;
+  bot: Bot | null;
+  /** 1-based team, 0 when the room has no teams or the player only watches. */
+  team: number;
+  /** Null for bots. */
+  profile: Profile | null;
+  /** Round time of this player's death in the current round, null while alive. */
+  diedAtMs: number | null;
+  chatLimit: ChatLimit;
+  /** Round trip the client last reported, null for bots. */
+  pingMs: number | null;
 };
 
 type Room = {
   code: string;
+  rules: RoomRules;
+  visibility: RoomVisibility;
   players: Map<string, Player>;
   tick: number;
-  elapsedMs: number;
-  nextShiftMs: number;
-  nextPulseMs: number;
-  nextResizeMs: number;
-  nextAccelMs: number;
-  circle: CircleState;
-  roundEnded: boolean;
+  world: WorldState;
+  rng: Rng;
+  phase: RoomPhase;
+  phaseTimerMs: number;
+  hostId: string | null;
+  recorder: Recorder | null;
+  /** Set from the first round of a match until the room is back in the lobby. */
+  match: Match | null;
+  /** Rounds started so far; picks the next map when the rules rotate them. */
+  mapTurn: number;
+  /** Set by the host; new players are turned away while it is. */
+  locked: boolean;
+  /** SHA-256 of the password a private room was created with, null when it has none. */
+  password: Buffer | null;
+  /** Resume and profile tokens of banned players. */
+  bannedTokens: Set<string>;
+  /** A player reported a new ping since the last `lobbyState`. */
+  pingsChanged: boolean;
+  tickStats: RoomTickStats;
 };
 
 const PORT = 8080;
 const TICK_RATE = 30;
 const SNAPSHOT_RATE = 12;
-const WORLD: WorldConfig = { width: 1200, height: 800 };
-
-const PLAYER_RADIUS = 18;
-const MAX_SPEED = 520;
-const ACCEL = 1400;
-const DAMPING = 3.2;
-const DASH_SPEED = 720;
-const DASH_COOLDOWN = 3;
-const COLLISION_PUSH = 520;
-const OUTSIDE_SPEED_MULT = 0.6;
-const OUTSIDE_HP_DRAIN = 12;
-
-const ROUND_DURATION_MS = 180000;
-const SHIFT_INTERVAL_MS = 15000;
-const SHIFT_DURATION_MS = 2000;
-const PULSE_INTERVAL_MS = 18000;
-const PULSE_DURATION_MS = 6000;
-const PULSE_AMPLITUDE = 0.12;
-const PULSE_FREQ = 5;
-const RESIZE_INTERVAL_MS = 22000;
-const ACCEL_INTERVAL_MS = 20000;
+// After a stall the loop replays at most this many ticks at once and drops the rest.
+const MAX_CATCH_UP_TICKS = 5;
+// A room whose tick (snapshots included) averages longer is logged; ROOM_TICK_BUDGET_MS=2 tightens it.
+const ROOM_TICK_BUDGET_MS = Number(process.env.ROOM_TICK_BUDGET_MS) || 5;
+
+const COUNTDOWN_MS = 3000;
+const INTERMISSION_MS = 5000;
+const ROUND_END_LOBBY_DELAY_MS = 6000;
+const MAX_INPUT_QUEUE = 6;
+const MAX_MESSAGE_BYTES = 4096;
+// Invalid messages add a strike; one strike decays per interval, too many and we disconnect.
+const MAX_STRIKES = 5;
+const STRIKE_DECAY_MS = 10000;
+// A dropped player keeps their slot (and body, holding still) this long for a `resume`.
+const RESUME_GRACE_MS = 30000;
+const MAX_BOTS = 6;
+// Participants per room, bots included; MAX_PLAYERS=16 raises it.
+const MAX_PLAYERS = Math.max(2, Math.floor(Number(process.env.MAX_PLAYERS)) || 10);
+const MAX_SPECTATORS = 8;
+// Reported pings reach the roster at most this often.
+const PING_BROADCAST_MS = 2000;
+const BOT_NAMES = ["Ada", "Bolt", "Chip", "Dot", "Echo", "Fuse", "Gizmo", "Hex"];
+// Rounds are recorded to this directory when set, e.g. REPLAY_DIR=./replays.
+const REPLAY_DIR = process.env.REPLAY_DIR ?? "";
+// SNAPSHOT_ENCODING=json forces readable snapshots for every client, for debugging.
+const SNAPSHOT_ENCODINGS: SnapshotEncoding[] =
+  process.env.SNAPSHOT_ENCODING === "json" ? ["json"] : ["binary", "json"];
+// Arena maps are read once at startup from this directory of <id>.json files.
+const MAP_DIR = process.env.MAP_DIR ?? DEFAULT_MAP_DIR;
+
+// Player profiles are kept in this JSON file; PROFILE_FILE= (empty) keeps them in memory only.
+const PROFILE_FILE = process.env.PROFILE_FILE ?? "profiles.json";
+// Bearer token for the HTTP admin routes; they are refused while it is unset.
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN ?? "";
+
+const maps = loadMaps(MAP_DIR);
+const profiles = loadProfiles(PROFILE_FILE);
+const metrics = createMetrics(Date.now());
 
 const rooms = new Map<string, Room>();
 
-const wss = new WebSocketServer({ port: PORT });
 
-const createRoom = (code: string): Room => ({
+const randomSeed = () => Math.floor(Math.random() * 0x100000000);
+
+const hashPassword = (password: string) => createHash("sha256").update(password).digest();
+
+const createRoom = (
+  code: string,
+  rules: RoomRules,
+  visibility: RoomVisibility,
+  password: Buffer | null = null
+): Room => ({
   code,
+  rules,
+  visibility,
   players: new Map(),
   tick: 0,
-  elapsedMs: 0,
-  nextShiftMs: SHIFT_INTERVAL_MS,
-  nextPulseMs: PULSE_INTERVAL_MS,
-  nextResizeMs: RESIZE_INTERVAL_MS,
-  nextAccelMs: ACCEL_INTERVAL_MS,
-  circle: {
-    x: WORLD.width * 0.5,
-    y: WORLD.height * 0.5,
-    vx: 1,
-    vy: 0,
-    driftSpeed: 8,
-    driftAccel: 1.2,
-    driftTimer: 2,
-    baseRadius: 320,
-    minRadius: 140,
-    maxRadius: 420,
-    shrinkRate: 0.7,
-    innerFactor: 0.6,
-    shift: {
-      active: false,
-      startX: WORLD.width * 0.5,
-      startY: WORLD.height * 0.5,
-      targetX: WORLD.width * 0.5,
-      targetY: WORLD.height * 0.5,
-      duration: SHIFT_DURATION_MS / 1000,
-      elapsed: 0
-    },
-    pulse: {
-      active: false,
-      duration: PULSE_DURATION_MS / 1000,
-      elapsed: 0,
-      amplitude: PULSE_AMPLITUDE
-    }
-  },
-  roundEnded: false
+  world: createWorldState(rules, pickMap(maps, rules, 0)),
+  rng: createRng(randomSeed()),
+  phase: "lobby",
+  phaseTimerMs: 0,
+  hostId: null,
+  recorder: null,
+  match: null,
+  mapTurn: 0,
+  locked: false,
+  password,
+  bannedTokens: new Set(),
+  pingsChanged: false,
+  tickStats: createRoomTickStats()
 });
 
-const resetRoomRound = (room: Room) => {
-  room.elapsedMs = 0;
-  room.nextShiftMs = SHIFT_INTERVAL_MS;
-  room.nextPulseMs = PULSE_INTERVAL_MS;
-  room.nextResizeMs = RESIZE_INTERVAL_MS;
-  room.nextAccelMs = ACCEL_INTERVAL_MS;
-  room.roundEnded = false;
-  room.circle = {
-    x: WORLD.width * 0.5,
-    y: WORLD.height * 0.5,
-    vx: 1,
-    vy: 0,
-    driftSpeed: 8,
-    driftAccel: 1.2,
-    driftTimer: 2,
-    baseRadius: 320,
-    minRadius: 140,
-    maxRadius: 420,
-    shrinkRate: 0.7,
-    innerFactor: 0.6,
-    shift: {
-      active: false,
-      startX: WORLD.width * 0.5,
-      startY: WORLD.height * 0.5,
-      targetX: WORLD.width * 0.5,
-      targetY: WORLD.height * 0.5,
-      duration: SHIFT_DURATION_MS / 1000,
-      elapsed: 0
-    },
-    pulse: {
-      active: false,
-      duration: PULSE_DURATION_MS / 1000,
-      elapsed: 0,
-      amplitude: PULSE_AMPLITUDE
-    }
-  };
-
-  for (const player of room.players.values()) {
-    player.hp = 100;
-    player.alive = true;
-    player.dominationTime = 0;
-    player.vx = 0;
-    player.vy = 0;
-  }
+// Codes for rooms opened by `quickPlay`; no 0/O or 1/I to misread.
+const ROOM_CODE_LETTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ROOM_CODE_LENGTH = 5;
+
+const createRoomCode = () => {
+  let code = "";
+  do {
+    code = Array.from(
+      randomBytes(ROOM_CODE_LENGTH),
+      (byte) => ROOM_CODE_LETTERS[byte % ROOM_CODE_LETTERS.length]
+    ).join("");
+  } while (rooms.has(code));
+  return code;
 };
 
-const randomId = () => Math.random().toString(36).slice(2, 9);
+const countParticipants = (room: Room) =>
+  Array.from(room.players.values()).filter((player) => !player.spectator).length;
 
-const safeSend = (ws: WebSocket, message: ServerMessage) => {
-  if (ws.readyState !== ws.OPEN) return;
-  ws.send(JSON.stringify(message));
-};
+const hasRoomFor = (room: Room, spectate: boolean) =>
+  spectate
+    ? room.players.size - countParticipants(room) < MAX_SPECTATORS
+    : countParticipants(room) < MAX_PLAYERS;
 
-const normalize = (x: number, y: number) => {
-  const len = Math.hypot(x, y);
-  if (len === 0) return { x: 0, y: 0 };
-  return { x: x / len, y: y / len };
-};
+const cleanNickname = (nickname: string) => nickname.trim().slice(0, 16) || "Player";
 
-const clampMagnitude = (vx: number, vy: number, max: number) => {
-  const len = Math.hypot(vx, vy);
-  if (len <= max) return { vx, vy };
-  const scale = max / len;
-  return { vx: vx * scale, vy: vy * scale };
-};
+const isNicknameTaken = (room: Room, nickname: string) =>
+  Array.from(room.players.values()).some((player) => player.nickname.toLowerCase() === nickname.toLowerCase());
 
-const getCircleSnapshot = (circle: CircleState): SafeCircleSnapshot => {
-  const pulse = circle.pulse.active
-    ? 1 + circle.pulse.amplitude * Math.sin(circle.pulse.elapsed * PULSE_FREQ)
-    : 1;
-  const radius = circle.baseRadius * pulse;
-  return {
-    x: circle.x,
-    y: circle.y,
-    radius,
-    innerRadius: radius * circle.innerFactor
-  };
-};
+/** Whether `quickPlay` may put a stranger into this room. */
+const isOpenRoom = (room: Room) =>
+  room.visibility === "public" && !room.locked && !room.password && hasRoomFor(room, false);
 
-const isOutside = (player: Player, circle: SafeCircleSnapshot) => {
-  const dist = Math.hypot(player.x - circle.x, player.y - circle.y);
-  return dist > circle.radius;
+/** Whether the profile behind `profileToken` was banned from `room`. */
+const isBanned = (room: Room, profileToken: string | undefined) =>
+  profileToken !== undefined && room.bannedTokens.has(profileToken);
+
+/** Bars `player` from `room` by their resume token and their profile. */
+const banPlayer = (room: Room, player: Player) => {
+  for (const token of [player.resumeToken, player.profile?.token]) {
+    if (token) room.bannedTokens.add(token);
+  }
 };
 
-const applyInput = (player: Player, dt: number, speedMultiplier: number) => {
-  if (!player.alive) return;
+/** Why `room` turns away someone joining it by code, or null when they may enter. */
+const refuseJoin = (
+  room: Room,
+  request: { nickname: string; spectate?: boolean; password?: string; profileToken?: string }
+): { code: ErrorCode; message: string } | null => {
+  if (isBanned(room, request.profileToken)) {
+    return { code: "banned", message: `You are banned from room ${room.code}.` };
+  }
+  if (room.locked) return { code: "roomLocked", message: `Room ${room.code} is locked.` };
+  if (room.password && !timingSafeEqual(room.password, hashPassword(request.password ?? ""))) {
+    return { code: "wrongPassword", message: `Wrong password for room ${room.code}.` };
+  }
+  if (!hasRoomFor(room, request.spectate === true)) {
+    return {
+      code: "roomFull",
+      message: request.spectate
+        ? `Room ${room.code} has no room for more spectators.`
+        : `Room ${room.code} is full (${MAX_PLAYERS} players).`
+    };
+  }
+  const nickname = cleanNickname(request.nickname);
+  if (isNicknameTaken(room, nickname)) {
+    return { code: "nicknameTaken", message: `Someone in room ${room.code} is already called ${nickname}.` };
+  }
+  return null;
+};
 
-  const input = player.input;
-  const dirX = (input.right ? 1 : 0) - (input.left ? 1 : 0);
-  const dirY = (input.down ? 1 : 0) - (input.up ? 1 : 0);
-  const dir = normalize(dirX, dirY);
+/** Open public rooms, fullest first. */
+const listOpenRooms = () =>
+  Array.from(rooms.values())
+    .filter(isOpenRoom)
+    .sort((a, b) => countParticipants(b) - countParticipants(a));
+
+const summarizeRoom = (room: Room): RoomSummary => ({
+  code: room.code,
+  players: countParticipants(room),
+  phase: room.phase,
+  preset: room.rules.preset,
+  map: room.world.map.id
+});
 
-  if (dir.x !== 0 || dir.y !== 0) {
-    player.lastDir = dir;
+const resetRoomRound = (room: Room) => {
+  room.world = createWorldState(room.rules, pickMap(maps, room.rules, room.mapTurn));
+  room.mapTurn += 1;
+  // Only players who are in the lobby as participants get a body for the round.
+  for (const player of room.players.values()) {
+    player.diedAtMs = null;
+    if (!player.spectator) {
+      room.world.bodies.set(player.id, createBody(player.id, player.team));
+    }
   }
+  room.rng = createRng(randomSeed());
+  resetWorld(room.world, room.rng);
+};
 
-  player.vx += dir.x * ACCEL * speedMultiplier * dt;
-  player.vy += dir.y * ACCEL * speedMultiplier * dt;
-
-  if (input.dash && player.dashCooldown <= 0) {
-    player.vx += player.lastDir.x * DASH_SPEED;
-    player.vy += player.lastDir.y * DASH_SPEED;
-    player.dashCooldown = DASH_COOLDOWN;
+/** The team with the fewest players, so joiners and bots even the sides out. */
+const pickTeam = (room: Room) => {
+  if (room.rules.teams === 0) return 0;
+  const sizes = Array.from({ length: room.rules.teams }, () => 0);
+  for (const player of room.players.values()) {
+    if (!player.spectator && player.team > 0) sizes[player.team - 1] += 1;
   }
+  return sizes.indexOf(Math.min(...sizes)) + 1;
+};
 
-  const damping = Math.exp(-DAMPING * dt);
-  player.vx *= damping;
-  player.vy *= damping;
+const randomId = () => Math.random().toString(36).slice(2, 9);
 
-  const clamped = clampMagnitude(player.vx, player.vy, MAX_SPEED);
-  player.vx = clamped.vx;
-  player.vy = clamped.vy;
+// Unlike player ids, resume tokens are secrets and must not be guessable.
+const randomToken = () => randomBytes(18).toString("base64url");
 
-  player.x += player.vx * dt;
-  player.y += player.vy * dt;
+const findSession = (token: string) => {
+  for (const room of rooms.values()) {
+    for (const player of room.players.values()) {
+      if (player.resumeToken === token) return { room, player };
+    }
+  }
+  return null;
+};
 
-  player.x = Math.max(PLAYER_RADIUS, Math.min(WORLD.width - PLAYER_RADIUS, player.x));
-  player.y = Math.max(PLAYER_RADIUS, Math.min(WORLD.height - PLAYER_RADIUS, player.y));
+const safeSend = (ws: WebSocket | null, message: ServerMessage) => {
+  if (!ws || ws.readyState !== ws.OPEN) return;
+  ws.send(JSON.stringify(message));
+  recordMessageSent(metrics);
 };
 
-const resolveCollisions = (players: Player[]) => {
-  for (let i = 0; i < players.length; i += 1) {
-    const a = players[i];
-    if (!a.alive) continue;
-    for (let j = i + 1; j < players.length; j += 1) {
-      const b = players[j];
-      if (!b.alive) continue;
-      const dx = b.x - a.x;
-      const dy = b.y - a.y;
-      const dist = Math.hypot(dx, dy);
-      const minDist = PLAYER_RADIUS * 2;
-      if (dist === 0 || dist >= minDist) continue;
+const sendError = (ws: WebSocket, code: ErrorCode, message: string) => {
+  safeSend(ws, { type: "error", code, message });
+};
 
-      const overlap = minDist - dist;
-      const nx = dx / dist;
-      const ny = dy / dist;
+const chooseEncoding = (offered: SnapshotEncoding[] | undefined): SnapshotEncoding =>
+  offered?.find((encoding) => SNAPSHOT_ENCODINGS.includes(encoding)) ?? "json";
+
+const sendSnapshot = (player: Player, snapshot: SnapshotMessage) => {
+  if (!player.ws || player.ws.readyState !== player.ws.OPEN) return;
+  const payload =
+    player.snapshotEncoding === "binary"
+      ? encodeSnapshot(player.snapshotEncoder, snapshot)
+      : JSON.stringify(snapshot);
+  player.ws.send(payload);
+  recordMessageSent(metrics);
+  recordSnapshotBytes(metrics, typeof payload === "string" ? Buffer.byteLength(payload) : payload.byteLength);
+};
 
-      a.x -= nx * overlap * 0.5;
-      a.y -= ny * overlap * 0.5;
-      b.x += nx * overlap * 0.5;
-      b.y += ny * overlap * 0.5;
+const sendWelcome = (room: Room, player: Player) => {
+  // Bots are never welcomed, and every human has a profile.
+  if (!player.profile) return;
+  safeSend(player.ws, {
+    type: "welcome",
+    playerId: player.id,
+    roomCode: room.code,
+    spectator: player.spectator,
+    snapshotEncoding: player.snapshotEncoding,
+    snapshotRate: SNAPSHOT_RATE,
+    tickRate: TICK_RATE,
+    rules: room.rules,
+    visibility: room.visibility,
+    resumeToken: player.resumeToken,
+    profileToken: player.profile.token
+  });
+};
 
-      a.vx -= nx * COLLISION_PUSH;
-      a.vy -= ny * COLLISION_PUSH;
-      b.vx += nx * COLLISION_PUSH;
-      b.vy += ny * COLLISION_PUSH;
+const collectInputs = (room: Room, dt: number) => {
+  const inputs = new Map<string, PlayerInput>();
+  for (const player of room.players.values()) {
+    const body = room.world.bodies.get(player.id);
+    if (player.bot) {
+      if (body) player.input = decideBotInput(player.bot, body, room.world, dt);
+      inputs.set(player.id, player.input);
+      continue;
     }
+    const next = player.inputQueue.shift();
+    if (next) {
+      player.input = next.input;
+      player.lastSeq = next.seq;
+    } else {
+      // Starved: keep moving the same way, but never repeat a one-shot dash.
+      player.input = { ...player.input, dash: false };
+    }
+    inputs.set(player.id, player.input);
   }
+  return inputs;
 };
 
-const updateCircle = (room: Room, dt: number) => {
-  const circle = room.circle;
-  circle.driftTimer -= dt;
-  if (circle.driftTimer <= 0) {
-    const angle = Math.random() * Math.PI * 2;
-    circle.vx = Math.cos(angle);
-    circle.vy = Math.sin(angle);
-    circle.driftTimer = 2 + Math.random() * 2;
+const disconnectPlayer = (room: Room, player: Player) => {
+  player.connected = false;
+  player.graceMs = RESUME_GRACE_MS;
+  player.ready = false;
+  player.inputQueue = [];
+  player.input = { ...IDLE_INPUT };
+  if (room.hostId === player.id) {
+    const next = Array.from(room.players.values()).find((other) => other.connected && !other.bot);
+    if (next) room.hostId = next.id;
+  }
+  if (room.phase === "countdown" && !canStart(room)) {
+    cancelCountdown(room);
+    return;
   }
-  circle.driftSpeed += circle.driftAccel * dt;
-  circle.x += circle.vx * circle.driftSpeed * dt;
-  circle.y += circle.vy * circle.driftSpeed * dt;
+  broadcastLobby(room);
+};
 
-  const margin = circle.baseRadius + 20;
-  if (circle.x < margin || circle.x > WORLD.width - margin) {
-    circle.vx *= -1;
-    circle.x = Math.max(margin, Math.min(WORLD.width - margin, circle.x));
+const removePlayer = (room: Room, playerId: string) => {
+  if (room.recorder && room.world.bodies.has(playerId)) {
+    recordTimeline(room.recorder, { tick: room.world.tick, type: "leave", playerId });
   }
-  if (circle.y < margin || circle.y > WORLD.height - margin) {
-    circle.vy *= -1;
-    circle.y = Math.max(margin, Math.min(WORLD.height - margin, circle.y));
+  room.players.delete(playerId);
+  room.world.bodies.delete(playerId);
+  const humans = Array.from(room.players.values()).filter((player) => !player.bot);
+  if (humans.length === 0) {
+    rooms.delete(room.code);
+    return;
   }
+  if (room.hostId === playerId) {
+    room.hostId = (humans.find((player) => player.connected) ?? humans[0]).id;
+  }
+  broadcastLobby(room);
+};
 
-  circle.baseRadius = Math.max(circle.minRadius, circle.baseRadius - circle.shrinkRate * dt);
+const addBot = (room: Room, difficulty: BotDifficulty) => {
+  const name = BOT_NAMES.find((candidate) => !isNicknameTaken(room, `Bot ${candidate}`)) ?? randomId();
+  const id = randomId();
+  const player: Player = {
+    id,
+    nickname: `Bot ${name}`,
+    ws: null,
+    input: { ...IDLE_INPUT },
+    inputQueue: [],
+    lastSeq: -1,
+    ready: true,
+    spectator: false,
+    snapshotEncoding: "json",
+    snapshotEncoder: createSnapshotEncoder(),
+    resumeToken: "",
+    connected: true,
+    graceMs: 0,
+    bot: createBot(difficulty),
+    team: pickTeam(room),
+    profile: null,
+    diedAtMs: null,
+    chatLimit: createChatLimit(Date.now()),
+    pingMs: null
+  };
+  const body = createBody(id, player.team);
+  spawnBody(room.world, body, room.rng);
+  room.world.bodies.set(id, body);
+  room.players.set(id, player);
+  broadcastLobby(room);
+};
 
-  if (circle.shift.active) {
-    circle.shift.elapsed += dt;
-    const t = Math.min(1, circle.shift.elapsed / circle.shift.duration);
-    circle.x = circle.shift.startX + (circle.shift.targetX - circle.shift.startX) * t;
-    circle.y = circle.shift.startY + (circle.shift.targetY - circle.shift.startY) * t;
-    if (t >= 1) {
-      circle.shift.active = false;
-    }
+const expireSessions = (room: Room, dt: number) => {
+  for (const player of room.players.values()) {
+    if (player.connected) continue;
+    player.graceMs -= dt * 1000;
+    if (player.graceMs <= 0) removePlayer(room, player.id);
   }
+};
 
-  if (circle.pulse.active) {
-    circle.pulse.elapsed += dt;
-    if (circle.pulse.elapsed >= circle.pulse.duration) {
-      circle.pulse.active = false;
-      circle.pulse.elapsed = 0;
+const updateRoom = (room: Room, dt: number) => {
+  room.tick += 1;
+  expireSessions(room, dt);
+
+  if (room.phase === "countdown") {
+    room.phaseTimerMs -= dt * 1000;
+    if (room.phaseTimerMs <= 0) {
+      room.match = createMatch(room.rules);
+      startRound(room);
     }
+    return;
   }
-};
 
-const triggerShift = (room: Room): ActiveEvent => {
-  const margin = Math.max(140, room.circle.baseRadius * 0.6);
-  const targetX = margin + Math.random() * (WORLD.width - margin * 2);
-  const targetY = margin + Math.random() * (WORLD.height - margin * 2);
+  if (room.phase === "intermission") {
+    room.phaseTimerMs -= dt * 1000;
+    if (room.phaseTimerMs <= 0) {
+      startRound(room);
+    }
+    return;
+  }
 
-  room.circle.shift = {
-    active: true,
-    startX: room.circle.x,
-    startY: room.circle.y,
-    targetX,
-    targetY,
-    duration: SHIFT_DURATION_MS / 1000,
-    elapsed: 0
-  };
+  if (room.phase === "ended") {
+    room.phaseTimerMs -= dt * 1000;
+    if (room.phaseTimerMs <= 0) {
+      returnToLobby(room);
+    }
+    return;
+  }
 
-  return { type: "SHIFT", targetX, targetY, durationMs: SHIFT_DURATION_MS };
-};
+  if (room.phase !== "playing") return;
 
-const triggerResize = (room: Room): ActiveEvent => {
-  const targetRadius =
-    room.circle.minRadius +
-    Math.random() * (room.circle.maxRadius - room.circle.minRadius);
-  room.circle.baseRadius = targetRadius;
-  return { type: "RESIZE", targetRadius };
-};
+  const inputs = collectInputs(room, dt);
+  if (room.recorder) {
+    recordInputs(room.recorder, room.world.tick, inputs);
+  }
 
-const triggerAccel = (room: Room): ActiveEvent => {
-  const speedBoost = 10;
-  const accelBoost = 0.6;
-  room.circle.driftSpeed += speedBoost;
-  room.circle.driftAccel += accelBoost;
-  return { type: "ACCEL", speedBoost, accelBoost };
-};
+  const result = stepWorld(room.world, inputs, dt, room.rng);
+  const tick = room.world.tick;
 
-const triggerPulse = (room: Room): ActiveEvent => {
-  room.circle.pulse = {
-    active: true,
-    duration: PULSE_DURATION_MS / 1000,
-    elapsed: 0,
-    amplitude: PULSE_AMPLITUDE
-  };
+  for (const knockout of result.deaths) {
+    if (room.recorder) recordTimeline(room.recorder, { tick, type: "death", playerId: knockout.playerId });
+    const victim = room.players.get(knockout.playerId);
+    if (victim) victim.diedAtMs = room.world.elapsedMs;
+    broadcastDeath(room, knockout);
+  }
 
-  return { type: "PULSE", durationMs: PULSE_DURATION_MS, amplitude: PULSE_AMPLITUDE };
-};
+  for (const player of room.players.values()) {
+    if (player.bot) observeBotEvents(player.bot, result.events);
+  }
 
-const updateRoom = (room: Room, dt: number) => {
-  if (room.roundEnded) {
-    room.tick += 1;
-    return;
+  for (const event of result.events) {
+    if (room.recorder) recordTimeline(room.recorder, { tick, type: "event", event });
+    broadcastEvent(room, event);
   }
 
-  room.elapsedMs += dt * 1000;
-  room.tick += 1;
+  for (const incoming of result.incoming) {
+    broadcast(room, { type: "eventIncoming", incoming });
+  }
 
-  updateCircle(room, dt);
+  for (const { playerId, pickup } of result.pickups) {
+    broadcast(room, { type: "pickup", playerId, pickup });
+  }
 
-  const currentCircle = getCircleSnapshot(room.circle);
+  checkRoundEnd(room);
+};
 
+const broadcast = (room: Room, message: ServerMessage) => {
   for (const player of room.players.values()) {
-    player.dashCooldown = Math.max(0, player.dashCooldown - dt);
-    const outside = isOutside(player, currentCircle);
-    const speedMultiplier = outside ? OUTSIDE_SPEED_MULT : 1;
-    applyInput(player, dt, speedMultiplier);
+    safeSend(player.ws, message);
   }
+};
+
+const broadcastEvent = (room: Room, event: ActiveEvent) => {
+  broadcast(room, { type: "event", event });
+};
 
-  resolveCollisions(Array.from(room.players.values()));
+const broadcastDeath = (room: Room, knockout: Knockout) => {
+  const player = room.players.get(knockout.playerId);
+  if (!player) return;
+  const killer = knockout.killerId ? room.players.get(knockout.killerId) : undefined;
+  broadcast(room, {
+    type: "death",
+    playerId: player.id,
+    nickname: player.nickname,
+    killerId: killer?.id ?? null,
+    killerNickname: killer?.nickname ?? null,
+    // Assists by players who already left are dropped along with them.
+    assistIds: knockout.assistIds.filter((id) => room.players.has(id))
+  });
+};
 
-  const circleSnapshot = getCircleSnapshot(room.circle);
+const broadcastLobby = (room: Room) => {
+  const players: LobbyPlayer[] = Array.from(room.players.values()).map((player) => ({
+    id: player.id,
+    nickname: player.nickname,
+    ready: player.ready,
+    spectator: player.spectator,
+    connected: player.connected,
+    bot: player.bot?.difficulty ?? null,
+    team: player.team,
+    pingMs: player.pingMs
+  }));
+  broadcast(room, {
+    type: "lobbyState",
+    phase: room.phase,
+    hostId: room.hostId,
+    players,
+    countdownMs:
+      room.phase === "countdown" || room.phase === "intermission" ? Math.max(0, room.phaseTimerMs) : 0,
+    match: room.match ? summarizeMatch(room.match) : null,
+    map: room.world.map,
+    locked: room.locked
+  });
+};
 
+const canStart = (room: Room) => {
+  let participants = 0;
   for (const player of room.players.values()) {
-    if (!player.alive) continue;
-    const outsideNow = isOutside(player, circleSnapshot);
-    if (outsideNow) {
-      player.hp = Math.max(0, player.hp - OUTSIDE_HP_DRAIN * dt);
-    }
-    if (player.hp <= 0) {
-      player.alive = false;
-      player.vx = 0;
-      player.vy = 0;
-      broadcastDeath(room, player);
-      continue;
-    }
-    const dist = Math.hypot(player.x - circleSnapshot.x, player.y - circleSnapshot.y);
-    if (dist <= circleSnapshot.innerRadius) {
-      player.dominationTime += dt;
-    }
+    // A dropped player is held for a resume, but must not keep the room from starting.
+    if (player.spectator || !player.connected) continue;
+    participants += 1;
+    if (player.id !== room.hostId && !player.ready) return false;
   }
+  return participants > 0;
+};
 
-  if (room.elapsedMs >= room.nextShiftMs) {
-    room.nextShiftMs += SHIFT_INTERVAL_MS;
-    const event = triggerShift(room);
-    broadcastEvent(room, event);
+/** Team rooms need players on at least two teams before a match can start. */
+const hasOpposingTeams = (room: Room) => {
+  if (room.rules.teams === 0) return true;
+  const teams = new Set<number>();
+  for (const player of room.players.values()) {
+    if (!player.spectator && player.connected) teams.add(player.team);
   }
+  return teams.size >= 2;
+};
 
-  if (room.elapsedMs >= room.nextPulseMs) {
-    room.nextPulseMs += PULSE_INTERVAL_MS;
-    const event = triggerPulse(room);
-    broadcastEvent(room, event);
-  }
+const startCountdown = (room: Room) => {
+  room.phase = "countdown";
+  room.phaseTimerMs = COUNTDOWN_MS;
+  broadcastLobby(room);
+};
 
-  if (room.elapsedMs >= room.nextResizeMs) {
-    room.nextResizeMs += RESIZE_INTERVAL_MS;
-    const event = triggerResize(room);
-    broadcastEvent(room, event);
+const cancelCountdown = (room: Room) => {
+  room.phase = "lobby";
+  room.phaseTimerMs = 0;
+  broadcastLobby(room);
+};
+
+const startRound = (room: Room) => {
+  resetRoomRound(room);
+  if (room.match) {
+    room.match.round += 1;
+    enterMatch(
+      room.match,
+      Array.from(room.world.bodies.values(), (body) => ({
+        id: body.id,
+        nickname: room.players.get(body.id)?.nickname ?? body.id,
+        team: body.team
+      }))
+    );
   }
+  room.recorder = REPLAY_DIR
+    ? createRecorder({
+        roomCode: room.code,
+        tickRate: TICK_RATE,
+        rules: room.rules,
+        map: room.world.map,
+        seed: room.rng.seed,
+        players: Array.from(room.world.bodies.keys()).map((id) => {
+          const player = room.players.get(id);
+          const team = room.world.bodies.get(id)?.team ?? 0;
+          const entry = { id, nickname: player?.nickname ?? id, ...(team ? { team } : {}) };
+          return player?.bot ? { ...entry, bot: true } : entry;
+        })
+      })
+    : null;
+  room.phase = "playing";
+  room.phaseTimerMs = 0;
+  broadcastLobby(room);
+};
 
-  if (room.elapsedMs >= room.nextAccelMs) {
-    room.nextAccelMs += ACCEL_INTERVAL_MS;
-    const event = triggerAccel(room);
-    broadcastEvent(room, event);
+const endRound = (
+  room: Room,
+  winnerId: string | null,
+  winningTeam: number,
+  reason: RoundEndReason
+) => {
+  const match = room.match ?? createMatch(room.rules);
+  room.match = match;
+  const round = match.round;
+  recordRound(
+    match,
+    { round, winnerId, winningTeam, reason },
+    new Map(Array.from(room.world.bodies.values(), (body) => [body.id, body.dominationTime]))
+  );
+  broadcast(room, { type: "roundEnd", winnerId, winningTeam, reason, round });
+  // An aborted round says nothing about anyone's skill.
+  if (reason !== "aborted") recordProfiles(room, winnerId, winningTeam);
+
+  if (isMatchOver(match)) {
+    room.phase = "ended";
+    room.phaseTimerMs = ROUND_END_LOBBY_DELAY_MS;
+    const championId = getChampion(match);
+    broadcast(room, {
+      type: "matchEnd",
+      championId,
+      championTeam: championId ? match.standings.get(championId)?.team ?? 0 : 0,
+      standings: getStandings(match),
+      rounds: match.results
+    });
+  } else {
+    room.phase = "intermission";
+    room.phaseTimerMs = INTERMISSION_MS;
   }
 
-  checkRoundEnd(room);
+  if (room.recorder) {
+    const recorder = room.recorder;
+    room.recorder = null;
+    recordTimeline(recorder, {
+      tick: room.world.tick,
+      type: "roundEnd",
+      winnerId,
+      winningTeam,
+      reason,
+      round
+    });
+    saveReplay(recorder, REPLAY_DIR, room.world.tick)
+      .then((file) => console.log(`Saved replay ${file}`))
+      .catch((error) => console.error("Failed to save replay", error));
+  }
+  broadcastLobby(room);
 };
 
-const broadcastEvent = (room: Room, event: ActiveEvent) => {
-  const message: ServerMessage = { type: "event", event };
-  for (const player of room.players.values()) {
-    safeSend(player.ws, message);
+/** Adds the round to the profile of every human who had a body in it. */
+const recordProfiles = (room: Room, winnerId: string | null, winningTeam: number) => {
+  const rounds = [];
+  for (const body of room.world.bodies.values()) {
+    const player = room.players.get(body.id);
+    if (!player?.profile) continue;
+    rounds.push({
+      profile: player.profile,
+      won: winningTeam !== 0 ? body.team === winningTeam : body.id === winnerId,
+      domination: body.dominationTime,
+      knockouts: body.knockouts,
+      survivedMs: player.diedAtMs ?? room.world.elapsedMs
+    });
   }
+  if (rounds.length === 0) return;
+  recordProfileRound(profiles, rounds);
+  saveProfiles(profiles);
 };
 
-const broadcastDeath = (room: Room, player: Player) => {
-  const message: ServerMessage = { type: "death", playerId: player.id, nickname: player.nickname };
-  for (const member of room.players.values()) {
-    safeSend(member.ws, message);
+const returnToLobby = (room: Room) => {
+  room.phase = "lobby";
+  room.phaseTimerMs = 0;
+  room.match = null;
+  for (const player of room.players.values()) {
+    player.ready = player.bot !== null;
   }
+  broadcastLobby(room);
 };
 
+// Teammates count as one side; in free-for-all everyone is their own.
+const sideOf = (body: Body) => (body.team !== 0 ? `team:${body.team}` : body.id);
+
+type Score = { domination: number; knockouts: number };
+
+// Domination decides; knockouts break a tie.
+const outscores = (a: Score, b: Score) =>
+  a.domination > b.domination || (a.domination === b.domination && a.knockouts > b.knockouts);
+
+const scoreOf = (body: Body): Score => ({ domination: body.dominationTime, knockouts: body.knockouts });
+
+const bestDominator = (bodies: Body[]) =>
+  bodies.reduce<Body | null>((best, body) => (!best || outscores(scoreOf(body), scoreOf(best)) ? body : best), null);
+
 const checkRoundEnd = (room: Room) => {
-  if (room.roundEnded) return;
-  if (room.players.size < 2) return;
-  const alivePlayers = Array.from(room.players.values()).filter((player) => player.alive);
-  if (alivePlayers.length <= 1) {
-    room.roundEnded = true;
-    const winnerId = alivePlayers[0]?.id ?? null;
-    const message: ServerMessage = { type: "roundEnd", winnerId, reason: "lastAlive" };
-    for (const player of room.players.values()) {
-      safeSend(player.ws, message);
-    }
+  if (room.phase !== "playing") return;
+  const bodies = Array.from(room.world.bodies.values());
+  if (new Set(bodies.map(sideOf)).size < 2) return;
+  const aliveBodies = bodies.filter((body) => body.alive);
+  if (new Set(aliveBodies.map(sideOf)).size <= 1) {
+    const winner = bestDominator(aliveBodies);
+    endRound(room, winner?.id ?? null, winner?.team ?? 0, "lastAlive");
     return;
   }
 
-  if (room.elapsedMs >= ROUND_DURATION_MS) {
-    room.roundEnded = true;
-    let winnerId: string | null = null;
-    let bestDomination = -1;
-    for (const player of room.players.values()) {
-      if (player.dominationTime > bestDomination) {
-        bestDomination = player.dominationTime;
-        winnerId = player.id;
-      }
+  if (room.world.elapsedMs >= room.rules.roundDurationMs) {
+    // Scores are summed per side, so a team wins on its members' combined time.
+    const totals = new Map<string, Score>();
+    for (const body of bodies) {
+      const total = totals.get(sideOf(body)) ?? { domination: 0, knockouts: 0 };
+      total.domination += body.dominationTime;
+      total.knockouts += body.knockouts;
+      totals.set(sideOf(body), total);
     }
-    const message: ServerMessage = { type: "roundEnd", winnerId, reason: "timeout" };
-    for (const player of room.players.values()) {
-      safeSend(player.ws, message);
+    let bestSide = "";
+    let bestTotal: Score | null = null;
+    for (const [side, total] of totals) {
+      if (!bestTotal || outscores(total, bestTotal)) {
+        bestTotal = total;
+        bestSide = side;
+      }
     }
+    const winner = bestDominator(bodies.filter((body) => sideOf(body) === bestSide));
+    endRound(room, winner?.id ?? null, winner?.team ?? 0, "timeout");
   }
 };
 
-const broadcastSnapshots = () => {
-  for (const room of rooms.values()) {
-    const circleSnapshot = getCircleSnapshot(room.circle);
-    const snapshot: ServerMessage = {
-      type: "snapshot",
-      tick: room.tick,
-      players: Array.from(room.players.values()).map((player) => ({
-        id: player.id,
-        x: player.x,
-        y: player.y,
-        radius: PLAYER_RADIUS,
-        nickname: player.nickname,
-        hp: player.hp,
-        alive: player.alive,
-        dominationTime: player.dominationTime
-      })),
-      circle: circleSnapshot,
-      remainingMs: Math.max(0, ROUND_DURATION_MS - room.elapsedMs)
-    };
+/** Sends every player the room's state as of `serverTime`, the tick loop's clock. */
+const broadcastSnapshot = (room: Room, serverTime: number) => {
+  const circles = getSafeZones(room.world.circle);
+  const players = [];
+  for (const player of room.players.values()) {
+    const body = room.world.bodies.get(player.id);
+    if (!body) continue;
+    players.push({
+      id: player.id,
+      x: body.x,
+      y: body.y,
+      vx: body.vx,
+      vy: body.vy,
+      radius: PLAYER_RADIUS,
+      nickname: player.nickname,
+      hp: body.hp,
+      alive: body.alive,
+      dominationTime: body.dominationTime,
+      dashCooldown: body.dashCooldown,
+      lastSeq: player.lastSeq,
+      bot: player.bot !== null,
+      team: body.team,
+      shield: body.shield,
+      heavy: body.heavy,
+      haste: body.haste,
+      knockouts: body.knockouts,
+      assists: body.assists
+    });
+  }
+  const snapshot: SnapshotMessage = {
+    type: "snapshot",
+    tick: room.tick,
+    serverTime: Math.round(serverTime),
+    players,
+    circles,
+    event: room.phase === "playing" ? room.world.events.active?.event : undefined,
+    pickups: room.phase === "playing" ? getPickupSnapshots(room.world.pickups) : [],
+    remainingMs: Math.max(0, room.rules.roundDurationMs - room.world.elapsedMs)
+  };
 
-    for (const player of room.players.values()) {
-      safeSend(player.ws, snapshot);
+  for (const player of room.players.values()) {
+    sendSnapshot(player, snapshot);
+  }
+};
+
+/** Removes a player for good and closes their socket, telling them why first. */
+const kickPlayer = (room: Room, player: Player, code: "kicked" | "roomClosed", message: string) => {
+  removePlayer(room, player.id);
+  if (!player.ws) return;
+  sendError(player.ws, code, message);
+  player.ws.close(1008, message);
+};
+
+const listRooms = (): RoomListing[] =>
+  Array.from(rooms.values(), (room) => ({
+    code: room.code,
+    visibility: room.visibility,
+    locked: room.locked,
+    hasPassword: room.password !== null,
+    phase: room.phase,
+    elapsedMs: room.phase === "playing" ? room.world.elapsedMs : 0,
+    tickMs: room.tickStats.averageMs,
+    preset: room.rules.preset,
+    map: room.world.map.id,
+    players: Array.from(room.players.values(), (player) => ({
+      id: player.id,
+      nickname: player.nickname,
+      bot: player.bot !== null,
+      spectator: player.spectator,
+      connected: player.connected,
+      team: player.team
+    }))
+  }));
+
+const roomNotFound = (code: string): AdminFailure => ({ status: 404, error: `No room ${code}.` });
+
+const admin = {
+  closeRoom: (code: string): AdminFailure => {
+    const room = rooms.get(code);
+    if (!room) return roomNotFound(code);
+    // The recorder is dropped unsaved: a closed room's round has no ending to replay.
+    room.recorder = null;
+    for (const player of Array.from(room.players.values())) {
+      kickPlayer(room, player, "roomClosed", "The room was closed by an admin.");
     }
+    rooms.delete(code);
+    return null;
+  },
+  kickPlayer: (code: string, playerId: string): AdminFailure => {
+    const room = rooms.get(code);
+    if (!room) return roomNotFound(code);
+    const player = room.players.get(playerId);
+    if (!player) return { status: 404, error: `No player ${playerId} in ${code}.` };
+    kickPlayer(room, player, "kicked", "You were removed by an admin.");
+    return null;
+  },
+  endRound: (code: string): AdminFailure => {
+    const room = rooms.get(code);
+    if (!room) return roomNotFound(code);
+    if (room.phase !== "playing") return { status: 409, error: `Room ${code} is not playing a round.` };
+    endRound(room, null, 0, "aborted");
+    return null;
   }
 };
 
+const httpServer = createServer(
+  createHttpHandler({
+    listRooms,
+    renderMetrics: (): string =>
+      renderMetrics(metrics, {
+        sockets: wss.clients.size,
+        rooms: rooms.size,
+        players: Array.from(rooms.values()).reduce((total, room) => total + room.players.size, 0)
+      }),
+    admin,
+    adminToken: ADMIN_TOKEN
+  })
+);
+
+// WebSocket upgrades share the HTTP port.
+const wss = new WebSocketServer({ server: httpServer, maxPayload: MAX_MESSAGE_BYTES });
+
 wss.on("connection", (ws) => {
   let currentRoom: Room | null = null;
   let playerId: string | null = null;
+  let strikes = 0;
+  let lastStrikeAt = 0;
+  let expelled = false;
+
+  const strike = (reason: string) => {
+    const now = Date.now();
+    strikes = Math.max(0, strikes - Math.floor((now - lastStrikeAt) / STRIKE_DECAY_MS)) + 1;
+    lastStrikeAt = now;
+    if (strikes >= MAX_STRIKES) {
+      sendError(ws, "tooManyStrikes", "Too many invalid messages.");
+      expelled = true;
+      ws.close(1008, "Too many invalid messages");
+      return;
+    }
+    sendError(ws, "invalidMessage", `Invalid message: ${reason}.`);
+  };
+
+  /** Adds this socket's player to `room`, as asked by a `join` or `quickPlay`. */
+  const enterRoom = (
+    room: Room,
+    request: { nickname: string; spectate?: boolean; encodings?: SnapshotEncoding[]; profileToken?: string }
+  ) => {
+    const nickname = cleanNickname(request.nickname);
+    const profile = findProfile(profiles, request.profileToken) ?? createProfile(randomToken(), nickname);
+    profile.nickname = nickname;
+    const id = randomId();
+    const player: Player = {
+      id,
+      nickname,
+      ws,
+      input: { up: false, down: false, left: false, right: false, dash: false },
+      inputQueue: [],
+      lastSeq: -1,
+      ready: false,
+      spectator: request.spectate === true,
+      snapshotEncoding: chooseEncoding(request.encodings),
+      snapshotEncoder: createSnapshotEncoder(),
+      resumeToken: randomToken(),
+      connected: true,
+      graceMs: 0,
+      bot: null,
+      team: 0,
+      profile,
+      diedAtMs: null,
+      chatLimit: createChatLimit(Date.now()),
+      pingMs: null
+    };
+    if (!player.spectator) player.team = pickTeam(room);
+
+    // Late joiners watch the running round and get a body at the next start.
+    // They must not draw from the round's RNG, or replays would diverge.
+    const inRound = room.phase === "playing" || room.phase === "intermission" || room.phase === "ended";
+    if (!player.spectator && !inRound) {
+      const body = createBody(id, player.team);
+      spawnBody(room.world, body, room.rng);
+      room.world.bodies.set(id, body);
+    }
+
+    room.players.set(id, player);
+    room.hostId ??= id;
+    currentRoom = room;
+    playerId = id;
+
+    sendWelcome(room, player);
+    broadcastLobby(room);
+  };
 
-  ws.on("message", (data) => {
-    let message: ClientMessage;
-    try {
-      message = JSON.parse(data.toString()) as ClientMessage;
-    } catch {
-      safeSend(ws, { type: "error", message: "Invalid message." });
+  ws.on("message", (data, isBinary) => {
+    recordMessageReceived(metrics);
+    if (isBinary) {
+      strike("binary frames are not accepted");
       return;
     }
+    const parsed = parseClientMessage(data.toString());
+    if (!parsed.ok) {
+      strike(parsed.reason);
+      return;
+    }
+    const message = parsed.value;
 
     if (message.type === "join") {
       if (currentRoom) {
-        safeSend(ws, { type: "error", message: "Already joined." });
+        sendError(ws, "alreadyJoined", "Already joined.");
         return;
       }
 
       const roomCode = message.roomCode.trim().toUpperCase();
-      const nickname = message.nickname.trim().slice(0, 16) || "Player";
-      const room = rooms.get(roomCode) ?? createRoom(roomCode);
-      rooms.set(roomCode, room);
-
-      playerId = randomId();
-      const player: Player = {
-        id: playerId,
-        nickname,
-        ws,
-        input: { up: false, down: false, left: false, right: false, dash: false },
-        x: room.circle.x + (Math.random() - 0.5) * 120,
-        y: room.circle.y + (Math.random() - 0.5) * 120,
-        vx: 0,
-        vy: 0,
-        lastDir: { x: 0, y: -1 },
-        dashCooldown: 0,
-        hp: 100,
-        alive: true,
-        dominationTime: 0
-      };
-
-      room.players.set(playerId, player);
-      currentRoom = room;
+      if (!roomCode) {
+        strike("room code is empty");
+        return;
+      }
+      let room = rooms.get(roomCode);
+      if (!room) {
+        if (!message.create) {
+          sendError(ws, "roomNotFound", `There is no room ${roomCode}.`);
+          return;
+        }
+        const rules = resolveRules(message.rules?.preset ?? "classic", message.rules?.overrides);
+        if (!rules.ok) {
+          sendError(ws, rules.code, `Invalid rules: ${rules.reason}.`);
+          return;
+        }
+        if (!isPlayableMap(maps, rules.value)) {
+          sendError(ws, "invalidRules", `Invalid rules: map "${rules.value.map}" is unknown or too small.`);
+          return;
+        }
+        const visibility = message.visibility ?? "private";
+        // Public rooms are open to anyone, so only private ones keep a password.
+        const password = visibility === "private" && message.password ? hashPassword(message.password) : null;
+        room = createRoom(roomCode, rules.value, visibility, password);
+        rooms.set(roomCode, room);
+      } else {
+        const refusal = refuseJoin(room, message);
+        if (refusal) {
+          sendError(ws, refusal.code, refusal.message);
+          return;
+        }
+      }
+
+      enterRoom(room, message);
+      return;
+    }
+
+    if (message.type === "quickPlay") {
+      if (currentRoom) {
+        sendError(ws, "alreadyJoined", "Already joined.");
+        return;
+      }
+      const nickname = cleanNickname(message.nickname);
+      let room = listOpenRooms().find(
+        (candidate) =>
+          hasRoomFor(candidate, message.spectate === true) &&
+          !isNicknameTaken(candidate, nickname) &&
+          !isBanned(candidate, message.profileToken)
+      );
+      if (!room) {
+        room = createRoom(createRoomCode(), RULE_PRESETS.classic, "public");
+        rooms.set(room.code, room);
+      }
+      enterRoom(room, message);
+      return;
+    }
+
+    if (message.type === "listRooms") {
+      safeSend(ws, { type: "roomList", rooms: listOpenRooms().map(summarizeRoom) });
+      return;
+    }
 
-      if (room.roundEnded) {
-        resetRoomRound(room);
+    if (message.type === "ping") {
+      safeSend(ws, { type: "pong", clientTime: message.clientTime, serverTime: performance.now() });
+      const player = currentRoom && playerId ? currentRoom.players.get(playerId) : undefined;
+      if (currentRoom && player && message.rttMs !== undefined) {
+        const pingMs = Math.round(message.rttMs);
+        if (pingMs !== player.pingMs) currentRoom.pingsChanged = true;
+        player.pingMs = pingMs;
       }
+      return;
+    }
 
-      safeSend(ws, {
-        type: "welcome",
-        playerId,
-        roomCode,
-        snapshotRate: SNAPSHOT_RATE,
-        tickRate: TICK_RATE,
-        world: WORLD
-      });
+    if (message.type === "resume") {
+      if (currentRoom) {
+        sendError(ws, "alreadyJoined", "Already joined.");
+        return;
+      }
+      const bannedFrom = Array.from(rooms.values()).find((room) => room.bannedTokens.has(message.token));
+      if (bannedFrom) {
+        sendError(ws, "banned", `You are banned from room ${bannedFrom.code}.`);
+        return;
+      }
+      const session = findSession(message.token);
+      if (!session) {
+        sendError(ws, "resumeFailed", "Your session has expired.");
+        return;
+      }
+      const { room, player } = session;
+      // A half-open old socket may still be attached; the new one takes over.
+      const previous = player.ws;
+      player.ws = ws;
+      if (previous && previous !== ws) previous.terminate();
+      player.connected = true;
+      player.graceMs = 0;
+      player.resumeToken = randomToken();
+      player.snapshotEncoding = chooseEncoding(message.encodings);
+      player.snapshotEncoder = createSnapshotEncoder();
+      currentRoom = room;
+      playerId = player.id;
+
+      sendWelcome(room, player);
+      broadcastLobby(room);
       return;
     }
 
     if (message.type === "input") {
       if (!currentRoom || !playerId) {
-        safeSend(ws, { type: "error", message: "Join a room first." });
+        sendError(ws, "notJoined", "Join a room first.");
+        return;
+      }
+      const player = currentRoom.players.get(playerId);
+      const body = currentRoom.world.bodies.get(playerId);
+      if (!player || message.seq <= player.lastSeq) return;
+      if (currentRoom.phase !== "playing" || !body?.alive) {
+        // Nothing to simulate; acknowledge so the client drops its prediction buffer.
+        player.inputQueue = [];
+        player.lastSeq = message.seq;
+        return;
+      }
+      player.inputQueue.push({ seq: message.seq, input: message.input });
+      if (player.inputQueue.length > MAX_INPUT_QUEUE) {
+        player.inputQueue.shift();
+      }
+      return;
+    }
+
+    if (message.type === "ready") {
+      if (!currentRoom || !playerId) {
+        sendError(ws, "notJoined", "Join a room first.");
+        return;
+      }
+      const player = currentRoom.players.get(playerId);
+      if (!player) return;
+      player.ready = message.ready;
+      if (currentRoom.phase === "countdown" && !player.ready && player.id !== currentRoom.hostId) {
+        cancelCountdown(currentRoom);
+        return;
+      }
+      broadcastLobby(currentRoom);
+      return;
+    }
+
+    if (message.type === "start") {
+      if (!currentRoom || !playerId) {
+        sendError(ws, "notJoined", "Join a room first.");
+        return;
+      }
+      if (currentRoom.hostId !== playerId) {
+        sendError(ws, "notHost", "Only the host can start.");
+        return;
+      }
+      if (currentRoom.phase !== "lobby") {
+        sendError(ws, "wrongPhase", "Round already in progress.");
+        return;
+      }
+      if (!canStart(currentRoom)) {
+        sendError(ws, "notReady", "Waiting for players to ready up.");
+        return;
+      }
+      if (!hasOpposingTeams(currentRoom)) {
+        sendError(ws, "invalidTeam", "Put players on at least two teams first.");
+        return;
+      }
+      startCountdown(currentRoom);
+      return;
+    }
+
+    if (message.type === "addBot" || message.type === "removeBot") {
+      if (!currentRoom || !playerId) {
+        sendError(ws, "notJoined", "Join a room first.");
+        return;
+      }
+      if (currentRoom.hostId !== playerId) {
+        sendError(ws, "notHost", "Only the host can manage bots.");
+        return;
+      }
+      if (currentRoom.phase !== "lobby") {
+        sendError(ws, "wrongPhase", "Bots can only be changed in the lobby.");
+        return;
+      }
+      if (message.type === "removeBot") {
+        if (currentRoom.players.get(message.playerId)?.bot) {
+          removePlayer(currentRoom, message.playerId);
+        }
+        return;
+      }
+      let bots = 0;
+      for (const player of currentRoom.players.values()) {
+        if (player.bot) bots += 1;
+      }
+      if (bots >= MAX_BOTS) {
+        sendError(ws, "botLimit", `A room can have at most ${MAX_BOTS} bots.`);
+        return;
+      }
+      if (!hasRoomFor(currentRoom, false)) {
+        sendError(ws, "roomFull", `The room is full (${MAX_PLAYERS} players).`);
+        return;
+      }
+      addBot(currentRoom, message.difficulty);
+      return;
+    }
+
+    if (message.type === "setTeam") {
+      if (!currentRoom || !playerId) {
+        sendError(ws, "notJoined", "Join a room first.");
+        return;
+      }
+      const targetId = message.playerId ?? playerId;
+      if (targetId !== playerId && currentRoom.hostId !== playerId) {
+        sendError(ws, "notHost", "Only the host can move other players.");
+        return;
+      }
+      if (currentRoom.phase !== "lobby") {
+        sendError(ws, "wrongPhase", "Teams can only be changed in the lobby.");
+        return;
+      }
+      if (message.team < 1 || message.team > currentRoom.rules.teams) {
+        sendError(ws, "invalidTeam", "This room has no such team.");
+        return;
+      }
+      const target = currentRoom.players.get(targetId);
+      if (!target || target.spectator) return;
+      target.team = message.team;
+      const body = currentRoom.world.bodies.get(targetId);
+      if (body) body.team = message.team;
+      broadcastLobby(currentRoom);
+      return;
+    }
+
+    if (message.type === "kick") {
+      if (!currentRoom || !playerId) {
+        sendError(ws, "notJoined", "Join a room first.");
+        return;
+      }
+      if (currentRoom.hostId !== playerId) {
+        sendError(ws, "notHost", "Only the host can remove players.");
+        return;
+      }
+      const target = currentRoom.players.get(message.playerId);
+      if (!target || target.id === playerId) return;
+      if (message.ban) banPlayer(currentRoom, target);
+      kickPlayer(
+        currentRoom,
+        target,
+        "kicked",
+        message.ban ? "You were banned from the room by the host." : "You were removed by the host."
+      );
+      return;
+    }
+
+    if (message.type === "lockRoom") {
+      if (!currentRoom || !playerId) {
+        sendError(ws, "notJoined", "Join a room first.");
+        return;
+      }
+      if (currentRoom.hostId !== playerId) {
+        sendError(ws, "notHost", "Only the host can lock the room.");
+        return;
+      }
+      currentRoom.locked = message.locked;
+      broadcastLobby(currentRoom);
+      return;
+    }
+
+    if (message.type === "emote" || message.type === "chat") {
+      if (!currentRoom || !playerId) {
+        sendError(ws, "notJoined", "Join a room first.");
         return;
       }
       const player = currentRoom.players.get(playerId);
-      if (!player || !player.alive) return;
-      player.input = message.input;
+      if (!player) return;
+      if (message.type === "chat" && currentRoom.phase === "playing") {
+        sendError(ws, "wrongPhase", "Chat is closed during a round; use emotes.");
+        return;
+      }
+      if (!takeChatToken(player.chatLimit, Date.now())) {
+        sendError(ws, "rateLimited", "Slow down a little.");
+        return;
+      }
+      if (message.type === "emote") {
+        broadcast(currentRoom, { type: "emote", playerId, emote: message.emote });
+        return;
+      }
+      const text = cleanChat(message.text);
+      if (text) broadcast(currentRoom, { type: "chat", playerId, nickname: player.nickname, text });
+      return;
+    }
+
+    if (message.type === "leaderboard") {
+      const self = currentRoom && playerId ? currentRoom.players.get(playerId)?.profile ?? null : null;
+      safeSend(ws, { type: "leaderboard", ...getLeaderboard(profiles, self) });
+      return;
+    }
+
+    if (message.type === "ack") {
+      const player = currentRoom && playerId ? currentRoom.players.get(playerId) : undefined;
+      if (player) acknowledgeSnapshot(player.snapshotEncoder, message.tick);
+      return;
+    }
+
+    if (message.type === "spectate") {
+      if (!currentRoom || !playerId) {
+        sendError(ws, "notJoined", "Join a room first.");
+        return;
+      }
+      const player = currentRoom.players.get(playerId);
+      if (!player) return;
+      if (currentRoom.phase !== "lobby") {
+        sendError(ws, "wrongPhase", "You can only switch roles in the lobby.");
+        return;
+      }
+      if (message.spectate !== player.spectator && !hasRoomFor(currentRoom, message.spectate)) {
+        sendError(ws, "roomFull", message.spectate ? "No room for more spectators." : "The room is full.");
+        return;
+      }
+      player.spectator = message.spectate;
+      player.ready = false;
+      if (player.spectator) {
+        currentRoom.world.bodies.delete(playerId);
+      } else if (!currentRoom.world.bodies.has(playerId)) {
+        if (player.team === 0) player.team = pickTeam(currentRoom);
+        const body = createBody(playerId, player.team);
+        spawnBody(currentRoom.world, body, currentRoom.rng);
+        currentRoom.world.bodies.set(playerId, body);
+      }
+      broadcastLobby(currentRoom);
       return;
     }
   });
 
   ws.on("close", () => {
     if (!currentRoom || !playerId) return;
-    currentRoom.players.delete(playerId);
-    if (currentRoom.players.size === 0) {
-      rooms.delete(currentRoom.code);
+    const player = currentRoom.players.get(playerId);
+    // Already replaced by a resumed socket, or removed after the grace period.
+    if (!player || player.ws !== ws) return;
+    if (expelled) {
+      removePlayer(currentRoom, playerId);
+      return;
     }
+    disconnectPlayer(currentRoom, player);
   });
 });
 
-setInterval(() => {
+// Snapshots owed, counted in ticks: one is due each time this reaches TICK_RATE.
+let snapshotDebt = 0;
+
+const runTick = (timeMs: number) => {
+  const startedAt = performance.now();
+  snapshotDebt += SNAPSHOT_RATE;
+  const sendSnapshots = snapshotDebt >= TICK_RATE;
+  if (sendSnapshots) snapshotDebt -= TICK_RATE;
   for (const room of rooms.values()) {
+    const roomStartedAt = performance.now();
     updateRoom(room, 1 / TICK_RATE);
+    if (sendSnapshots && rooms.has(room.code)) broadcastSnapshot(room, timeMs);
+    const finishedAt = performance.now();
+    const report = recordRoomTick(room.tickStats, finishedAt - roomStartedAt, ROOM_TICK_BUDGET_MS, finishedAt);
+    if (report) {
+      console.warn(
+        `Room ${room.code} averages ${report.averageMs.toFixed(2)} ms a tick, over its ${ROOM_TICK_BUDGET_MS} ms ` +
+          `budget (max ${report.maxMs.toFixed(1)} ms, ${report.overBudget} ticks over, ${room.players.size} players)`
+      );
+    }
   }
-}, 1000 / TICK_RATE);
+  recordTick(metrics, (performance.now() - startedAt) / 1000);
+};
 
-setInterval(broadcastSnapshots, 1000 / SNAPSHOT_RATE);
+startFixedLoop({
+  stepMs: 1000 / TICK_RATE,
+  maxCatchUp: MAX_CATCH_UP_TICKS,
+  step: runTick,
+  onSkip: (steps) => recordTicksSkipped(metrics, steps)
+});
 
-console.log(`Server listening on ws://localhost:${PORT}`);
+setInterval(() => rollMetrics(metrics, Date.now()), 1000);
+
+setInterval(() => {
+  for (const room of rooms.values()) {
+    if (!room.pingsChanged) continue;
+    room.pingsChanged = false;
+    broadcastLobby(room);
+  }
+}, PING_BROADCAST_MS);
+
+httpServer.listen(PORT, () => {
+  console.log(
+    `Server listening on ws://localhost:${PORT} with ${maps.size} maps and ${profiles.profiles.size} profiles`
+  );
+});
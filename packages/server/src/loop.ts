@@ -0,0 +1,42 @@
+export type FixedLoopOptions = {
+  stepMs: number;
+  /** Most steps run on one wake-up; anything further behind is skipped. */
+  maxCatchUp: number;
+  /** `timeMs` is the loop's own clock, one `stepMs` further each step. */
+  step(timeMs: number): void;
+  onSkip(steps: number): void;
+};
+
+/**
+ * Runs `step` at a fixed rate measured on the monotonic clock. Wall time
+ * piles up in an accumulator and is paid out in whole steps, so late timers
+ * and short pauses are caught up instead of slowing the game down; a long
+ * stall is dropped after `maxCatchUp` steps rather than replayed in a burst.
+ */
+export const startFixedLoop = (options: FixedLoopOptions) => {
+  const { stepMs, maxCatchUp, step, onSkip } = options;
+  let lastMs = performance.now();
+  let timeMs = lastMs;
+  let accumulatorMs = 0;
+
+  const wake = () => {
+    const now = performance.now();
+    accumulatorMs += now - lastMs;
+    lastMs = now;
+    for (let steps = 0; accumulatorMs >= stepMs && steps < maxCatchUp; steps += 1) {
+      timeMs += stepMs;
+      step(timeMs);
+      accumulatorMs -= stepMs;
+    }
+    if (accumulatorMs >= stepMs) {
+      const skipped = Math.floor(accumulatorMs / stepMs);
+      accumulatorMs -= skipped * stepMs;
+      timeMs += skipped * stepMs;
+      onSkip(skipped);
+    }
+    // Time spent in the steps themselves is already owed to the next wake-up.
+    setTimeout(wake, Math.max(0, stepMs - accumulatorMs - (performance.now() - now)));
+  };
+
+  setTimeout(wake, stepMs);
+};
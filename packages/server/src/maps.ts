@@ -0,0 +1,76 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createOpenMap, isOpenSpot } from "@tck/shared/src/maps";
+import type { ArenaMap, RoomRules } from "@tck/shared/src/protocol";
+import { MAP_ID } from "@tck/shared/src/rules";
+import { PLAYER_RADIUS } from "@tck/shared/src/simulation";
+import { parseArenaMap } from "@tck/shared/src/validation";
+
+/** The maps shipped with the server, used unless MAP_DIR points elsewhere. */
+export const DEFAULT_MAP_DIR = fileURLToPath(new URL("../maps", import.meta.url));
+
+// `rules.map` values that pick a map rather than name one.
+const MAP_CHOICES = ["open", "rotate", "random"];
+
+const checkMap = (id: string, map: ArenaMap) => {
+  if (!MAP_ID.test(id) || MAP_CHOICES.includes(id)) return `"${id}" cannot be used as a map id`;
+  if (map.id !== id) return `map.id must match the file name "${id}"`;
+  const blocked = map.spawns.findIndex((spawn) => !isOpenSpot(map, spawn, PLAYER_RADIUS));
+  if (blocked >= 0) return `spawns[${blocked}] is inside a wall or outside the arena`;
+  return null;
+};
+
+/**
+ * Reads every `<id>.json` in `dir`. A file that fails validation is reported
+ * and skipped so one bad map does not keep the server from starting.
+ */
+export const loadMaps = (dir: string) => {
+  const maps = new Map<string, ArenaMap>();
+  let files: string[];
+  try {
+    files = readdirSync(dir)
+      .filter((file) => file.endsWith(".json"))
+      .sort();
+  } catch (error) {
+    console.warn(`No maps loaded from ${dir}: ${(error as Error).message}`);
+    return maps;
+  }
+  for (const file of files) {
+    const id = path.basename(file, ".json");
+    const parsed = parseArenaMap(readFileSync(path.join(dir, file), "utf8"));
+    const reason = parsed.ok ? checkMap(id, parsed.value) : parsed.reason;
+    if (reason || !parsed.ok) {
+      console.warn(`Skipping map ${file}: ${reason}`);
+      continue;
+    }
+    maps.set(id, parsed.value);
+  }
+  return maps;
+};
+
+/** Maps smaller than the room's safe circle cannot host its rounds. */
+const fitsRules = (map: ArenaMap, rules: RoomRules) =>
+  Math.min(map.width, map.height) >= rules.circle.baseRadius * 2;
+
+/** Whether `rules.map` is something this server can play. */
+export const isPlayableMap = (maps: Map<string, ArenaMap>, rules: RoomRules) => {
+  if (MAP_CHOICES.includes(rules.map)) return true;
+  const map = maps.get(rules.map);
+  return map !== undefined && fitsRules(map, rules);
+};
+
+/**
+ * The arena for a room's next round. `turn` counts the rounds the room has
+ * started and drives `rotate`; maps too small for the circle are passed over
+ * and the open arena is the fallback.
+ */
+export const pickMap = (maps: Map<string, ArenaMap>, rules: RoomRules, turn: number): ArenaMap => {
+  const open = createOpenMap(rules.world);
+  if (rules.map === "open") return open;
+  const candidates = Array.from(maps.values()).filter((map) => fitsRules(map, rules));
+  if (rules.map === "rotate") return candidates[turn % candidates.length] ?? open;
+  if (rules.map === "random") return candidates[Math.floor(Math.random() * candidates.length)] ?? open;
+  const map = maps.get(rules.map);
+  return map && fitsRules(map, rules) ? map : open;
+};
@@ -0,0 +1,85 @@
+import type {
+  MatchStanding,
+  MatchSummary,
+  RoomRules,
+  RoundResult
+} from "@tck/shared/src/protocol";
+
+/** A series of rounds played by the same room, from the first countdown until the champion is known. */
+export type Match = {
+  rounds: number;
+  winTarget: number;
+  /** Rounds started so far, counting the one running. */
+  round: number;
+  results: RoundResult[];
+  /** Keyed by player id; kept for players who leave so the final table stays complete. */
+  standings: Map<string, MatchStanding>;
+};
+
+export const createMatch = (rules: RoomRules): Match => ({
+  rounds: rules.matchRounds,
+  winTarget: rules.matchWinTarget,
+  round: 0,
+  results: [],
+  standings: new Map()
+});
+
+/** Adds anyone new to the table; call at every round start. */
+export const enterMatch = (
+  match: Match,
+  players: Array<{ id: string; nickname: string; team: number }>
+) => {
+  for (const player of players) {
+    const standing = match.standings.get(player.id);
+    if (standing) {
+      standing.nickname = player.nickname;
+      standing.team = player.team;
+      continue;
+    }
+    match.standings.set(player.id, {
+      playerId: player.id,
+      nickname: player.nickname,
+      team: player.team,
+      wins: 0,
+      domination: 0
+    });
+  }
+};
+
+/** Credits the round's winner, or every member of the winning team. */
+export const recordRound = (match: Match, result: RoundResult, domination: Map<string, number>) => {
+  match.results.push(result);
+  for (const [id, seconds] of domination) {
+    const standing = match.standings.get(id);
+    if (standing) standing.domination += seconds;
+  }
+  for (const standing of match.standings.values()) {
+    const won =
+      result.winningTeam !== 0 ? standing.team === result.winningTeam : standing.playerId === result.winnerId;
+    if (won) standing.wins += 1;
+  }
+};
+
+export const isMatchOver = (match: Match) =>
+  match.round >= match.rounds ||
+  Array.from(match.standings.values()).some((standing) => standing.wins >= match.winTarget);
+
+export const getStandings = (match: Match) =>
+  Array.from(match.standings.values()).sort(
+    (a, b) => b.wins - a.wins || b.domination - a.domination
+  );
+
+/** Most wins, then most domination; null when the top two cannot be told apart. */
+export const getChampion = (match: Match) => {
+  const [first, second] = getStandings(match);
+  if (!first) return null;
+  if (second && second.wins === first.wins && second.domination === first.domination) return null;
+  return first.playerId;
+};
+
+export const summarizeMatch = (match: Match): MatchSummary => ({
+  round: match.round,
+  rounds: match.rounds,
+  winTarget: match.winTarget,
+  standings: getStandings(match)
+});
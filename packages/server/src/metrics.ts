@@ -0,0 +1,152 @@
+/**
+ * Server-wide counters for `/metrics`. Totals only grow; the per-second values
+ * describe the last full window, rolled by `rollMetrics` once a second.
+ */
+export type Metrics = {
+  ticks: number;
+  tickSecondsSum: number;
+  /** Steps the tick loop dropped after falling too far behind. */
+  ticksSkipped: number;
+  snapshotBytes: number;
+  messagesReceived: number;
+  messagesSent: number;
+  window: MetricsWindow;
+  /** The last finished window, scaled to one second. */
+  lastWindow: MetricsWindow;
+};
+
+type MetricsWindow = {
+  startMs: number;
+  snapshotBytes: number;
+  messagesReceived: number;
+  messagesSent: number;
+  tickSecondsMax: number;
+};
+
+const createWindow = (startMs: number): MetricsWindow => ({
+  startMs,
+  snapshotBytes: 0,
+  messagesReceived: 0,
+  messagesSent: 0,
+  tickSecondsMax: 0
+});
+
+export const createMetrics = (nowMs: number): Metrics => ({
+  ticks: 0,
+  tickSecondsSum: 0,
+  ticksSkipped: 0,
+  snapshotBytes: 0,
+  messagesReceived: 0,
+  messagesSent: 0,
+  window: createWindow(nowMs),
+  lastWindow: createWindow(nowMs)
+});
+
+export const recordTick = (metrics: Metrics, seconds: number) => {
+  metrics.ticks += 1;
+  metrics.tickSecondsSum += seconds;
+  metrics.window.tickSecondsMax = Math.max(metrics.window.tickSecondsMax, seconds);
+};
+
+export const recordTicksSkipped = (metrics: Metrics, steps: number) => {
+  metrics.ticksSkipped += steps;
+};
+
+export const recordSnapshotBytes = (metrics: Metrics, bytes: number) => {
+  metrics.snapshotBytes += bytes;
+  metrics.window.snapshotBytes += bytes;
+};
+
+export const recordMessageReceived = (metrics: Metrics) => {
+  metrics.messagesReceived += 1;
+  metrics.window.messagesReceived += 1;
+};
+
+export const recordMessageSent = (metrics: Metrics) => {
+  metrics.messagesSent += 1;
+  metrics.window.messagesSent += 1;
+};
+
+export const rollMetrics = (metrics: Metrics, nowMs: number) => {
+  const seconds = Math.max(0.001, (nowMs - metrics.window.startMs) / 1000);
+  const { window } = metrics;
+  metrics.lastWindow = {
+    startMs: window.startMs,
+    snapshotBytes: window.snapshotBytes / seconds,
+    messagesReceived: window.messagesReceived / seconds,
+    messagesSent: window.messagesSent / seconds,
+    tickSecondsMax: window.tickSecondsMax
+  };
+  metrics.window = createWindow(nowMs);
+};
+
+const metric = (name: string, type: "counter" | "gauge", help: string, value: number) =>
+  `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n${name} ${value}\n`;
+
+/** The Prometheus text exposition of `metrics` plus the live gauges. */
+export const renderMetrics = (
+  metrics: Metrics,
+  gauges: { sockets: number; rooms: number; players: number }
+) => {
+  const last = metrics.lastWindow;
+  return [
+    "# HELP tck_tick_duration_seconds Time spent advancing every room and sending its snapshots in one tick.\n" +
+      "# TYPE tck_tick_duration_seconds summary\n" +
+      `tck_tick_duration_seconds_sum ${metrics.tickSecondsSum}\n` +
+      `tck_tick_duration_seconds_count ${metrics.ticks}\n`,
+    metric("tck_tick_duration_max_seconds", "gauge", "Longest tick in the last second.", last.tickSecondsMax),
+    metric("tck_ticks_skipped_total", "counter", "Ticks dropped after the loop fell behind.", metrics.ticksSkipped),
+    metric("tck_snapshot_bytes_total", "counter", "Snapshot bytes sent to clients.", metrics.snapshotBytes),
+    metric("tck_snapshot_bytes_per_second", "gauge", "Snapshot bytes sent in the last second.", last.snapshotBytes),
+    metric("tck_messages_received_total", "counter", "Client messages received.", metrics.messagesReceived),
+    metric(
+      "tck_messages_received_per_second",
+      "gauge",
+      "Client messages received in the last second.",
+      last.messagesReceived
+    ),
+    metric("tck_messages_sent_total", "counter", "Messages sent to clients, snapshots included.", metrics.messagesSent),
+    metric("tck_messages_sent_per_second", "gauge", "Messages sent in the last second.", last.messagesSent),
+    metric("tck_connected_sockets", "gauge", "Open WebSocket connections.", gauges.sockets),
+    metric("tck_rooms", "gauge", "Rooms currently open.", gauges.rooms),
+    metric("tck_players", "gauge", "Players in rooms, bots included.", gauges.players)
+  ].join("");
+};
+
+/** What one room's share of a tick costs, snapshot sending included. */
+export type RoomTickStats = {
+  /** Exponentially smoothed over roughly the last 20 ticks, in milliseconds. */
+  averageMs: number;
+  /** Since the last over-budget warning. */
+  maxMs: number;
+  /** Single ticks over budget since the last warning. */
+  overBudget: number;
+  lastWarnedAtMs: number;
+};
+
+// Over-budget rooms are reported at most this often, each.
+const ROOM_WARN_INTERVAL_MS = 10000;
+
+export const createRoomTickStats = (): RoomTickStats => ({
+  averageMs: 0,
+  maxMs: 0,
+  overBudget: 0,
+  lastWarnedAtMs: -Infinity
+});
+
+/**
+ * Adds one tick's cost. Returns the stats to report when the room's average
+ * is over `budgetMs` and it has not been reported lately, null otherwise; a
+ * lone slow tick only shows up in the next report.
+ */
+export const recordRoomTick = (stats: RoomTickStats, costMs: number, budgetMs: number, nowMs: number) => {
+  stats.averageMs += (costMs - stats.averageMs) * 0.05;
+  stats.maxMs = Math.max(stats.maxMs, costMs);
+  if (costMs > budgetMs) stats.overBudget += 1;
+  if (stats.averageMs <= budgetMs || nowMs - stats.lastWarnedAtMs < ROOM_WARN_INTERVAL_MS) return null;
+  const report = { overBudget: stats.overBudget, maxMs: stats.maxMs, averageMs: stats.averageMs };
+  stats.lastWarnedAtMs = nowMs;
+  stats.overBudget = 0;
+  stats.maxMs = 0;
+  return report;
+};
@@ -0,0 +1,173 @@
+import { readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { LeaderboardEntry } from "@tck/shared/src/protocol";
+import { array, number, object, string } from "@tck/shared/src/validation";
+import { INITIAL_RATING, rateRound } from "./rating.js";
+
+/** Lifetime stats of one human player, found again through the token their client keeps. */
+export type Profile = {
+  token: string;
+  nickname: string;
+  rating: number;
+  wins: number;
+  roundsPlayed: number;
+  /** Seconds. */
+  domination: number;
+  knockouts: number;
+  longestSurvivalMs: number;
+};
+
+export type ProfileStore = {
+  /** Empty when profiles only live as long as the process. */
+  file: string;
+  profiles: Map<string, Profile>;
+  saving: boolean;
+  /** Changed again while a save was running; written once it finishes. */
+  dirty: boolean;
+};
+
+/** One profile's part in a finished round. */
+export type ProfileRound = {
+  profile: Profile;
+  won: boolean;
+  domination: number;
+  knockouts: number;
+  survivedMs: number;
+};
+
+const LEADERBOARD_SIZE = 20;
+
+const profileSchema = object<Profile>({
+  token: string({ min: 1, max: 64 }),
+  nickname: string({ max: 32 }),
+  rating: number(),
+  wins: number({ integer: true, min: 0 }),
+  roundsPlayed: number({ integer: true, min: 0 }),
+  domination: number({ min: 0 }),
+  knockouts: number({ integer: true, min: 0 }),
+  longestSurvivalMs: number({ min: 0 })
+});
+
+const profileFileSchema = object<{ profiles: Profile[] }>({
+  profiles: array(profileSchema, 1_000_000)
+});
+
+/**
+ * Reads the profile file once at startup. A missing file starts an empty
+ * store; an unreadable one is reported and left alone rather than overwritten.
+ */
+export const loadProfiles = (file: string): ProfileStore => {
+  const store: ProfileStore = { file, profiles: new Map(), saving: false, dirty: false };
+  if (!file) return store;
+  let raw: string;
+  try {
+    raw = readFileSync(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`Profiles not loaded from ${file}: ${(error as Error).message}`);
+    }
+    return store;
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    data = null;
+  }
+  const reason = profileFileSchema(data, "profiles");
+  if (reason) {
+    console.warn(`Profiles not loaded from ${file}: ${reason}; saving is off until it is fixed.`);
+    store.file = "";
+    return store;
+  }
+  // Files from before profiles were kept back until their first round may hold unplayed ones.
+  for (const profile of (data as { profiles: Profile[] }).profiles) {
+    if (profile.roundsPlayed > 0) store.profiles.set(profile.token, profile);
+  }
+  return store;
+};
+
+export const findProfile = (store: ProfileStore, token: string | undefined) =>
+  token ? store.profiles.get(token) : undefined;
+
+/**
+ * A fresh profile for a new player. It joins the store with its first
+ * recorded round, so players who never finish one leave nothing behind.
+ */
+export const createProfile = (token: string, nickname: string): Profile => ({
+  token,
+  nickname,
+  rating: INITIAL_RATING,
+  wins: 0,
+  roundsPlayed: 0,
+  domination: 0,
+  knockouts: 0,
+  longestSurvivalMs: 0
+});
+
+/** Adds a finished round to every profile that played it, moves their ratings and stores new ones. */
+export const recordProfileRound = (store: ProfileStore, rounds: ProfileRound[]) => {
+  const ratings = rateRound(
+    rounds.map(({ profile, won }) => ({ id: profile.token, rating: profile.rating, won }))
+  );
+  for (const { profile, won, domination, knockouts, survivedMs } of rounds) {
+    profile.rating = ratings.get(profile.token) ?? profile.rating;
+    profile.roundsPlayed += 1;
+    if (won) profile.wins += 1;
+    profile.domination += domination;
+    profile.knockouts += knockouts;
+    profile.longestSurvivalMs = Math.max(profile.longestSurvivalMs, survivedMs);
+    store.profiles.set(profile.token, profile);
+  }
+};
+
+const toEntry = (profile: Profile, rank: number): LeaderboardEntry => ({
+  rank,
+  nickname: profile.nickname,
+  rating: Math.round(profile.rating),
+  wins: profile.wins,
+  roundsPlayed: profile.roundsPlayed,
+  domination: profile.domination,
+  knockouts: profile.knockouts,
+  longestSurvivalMs: profile.longestSurvivalMs
+});
+
+/** The best rated profiles that have played, plus where `self` stands. */
+export const getLeaderboard = (store: ProfileStore, self: Profile | null) => {
+  const ranked = Array.from(store.profiles.values())
+    .filter((profile) => profile.roundsPlayed > 0)
+    .sort((a, b) => b.rating - a.rating || b.wins - a.wins);
+  const selfRank = self ? ranked.indexOf(self) : -1;
+  return {
+    entries: ranked.slice(0, LEADERBOARD_SIZE).map((profile, index) => toEntry(profile, index + 1)),
+    self: self && selfRank >= 0 ? toEntry(self, selfRank + 1) : null
+  };
+};
+
+const writeProfiles = async (store: ProfileStore) => {
+  const temp = `${store.file}.tmp`;
+  await mkdir(path.dirname(store.file), { recursive: true });
+  await writeFile(temp, JSON.stringify({ profiles: Array.from(store.profiles.values()) }));
+  // Renaming keeps the old file intact if the process dies mid-write.
+  await rename(temp, store.file);
+};
+
+/** Writes the store in the background; calls made while a write runs fold into one more. */
+export const saveProfiles = (store: ProfileStore) => {
+  if (!store.file) return;
+  if (store.saving) {
+    store.dirty = true;
+    return;
+  }
+  store.saving = true;
+  writeProfiles(store)
+    .catch((error) => console.error("Failed to save profiles", error))
+    .finally(() => {
+      store.saving = false;
+      if (store.dirty) {
+        store.dirty = false;
+        saveProfiles(store);
+      }
+    });
+};
@@ -0,0 +1,29 @@
+export const INITIAL_RATING = 1500;
+const K_FACTOR = 32;
+
+const expectedScore = (rating: number, opponent: number) => 1 / (1 + 10 ** ((opponent - rating) / 400));
+
+/**
+ * Elo after one round. Every winner is scored against every loser and the
+ * result averaged over their opponents, so a big lobby moves ratings no more
+ * than a duel. Losers are not compared with each other, and a round without
+ * a winner or without a loser changes nothing.
+ */
+export const rateRound = (players: Array<{ id: string; rating: number; won: boolean }>) => {
+  const winners = players.filter((player) => player.won);
+  const losers = players.filter((player) => !player.won);
+  const ratings = new Map(players.map((player) => [player.id, player.rating]));
+  if (winners.length === 0 || losers.length === 0) return ratings;
+
+  for (const winner of winners) {
+    let score = 0;
+    for (const loser of losers) score += 1 - expectedScore(winner.rating, loser.rating);
+    ratings.set(winner.id, winner.rating + (K_FACTOR * score) / losers.length);
+  }
+  for (const loser of losers) {
+    let score = 0;
+    for (const winner of winners) score -= expectedScore(loser.rating, winner.rating);
+    ratings.set(loser.id, loser.rating + (K_FACTOR * score) / winners.length);
+  }
+  return ratings;
+};
@@ -0,0 +1,70 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ArenaMap, PlayerInput, RoomRules } from "@tck/shared/src/protocol";
+import {
+  REPLAY_VERSION,
+  type ReplayFile,
+  type ReplayTimelineEntry
+} from "@tck/shared/src/replay";
+
+export type Recorder = {
+  file: ReplayFile;
+  lastInputs: Map<string, PlayerInput>;
+};
+
+const sameInput = (a: PlayerInput, b: PlayerInput) =>
+  a.up === b.up && a.down === b.down && a.left === b.left && a.right === b.right && a.dash === b.dash;
+
+export const createRecorder = (options: {
+  roomCode: string;
+  tickRate: number;
+  rules: RoomRules;
+  map: ArenaMap;
+  seed: number;
+  players: Array<{ id: string; nickname: string }>;
+}): Recorder => ({
+  file: {
+    version: REPLAY_VERSION,
+    roomCode: options.roomCode,
+    recordedAt: new Date().toISOString(),
+    tickRate: options.tickRate,
+    rules: options.rules,
+    map: options.map,
+    seed: options.seed,
+    players: options.players,
+    inputs: [],
+    timeline: [],
+    durationTicks: 0
+  },
+  lastInputs: new Map()
+});
+
+/** Stores the inputs about to be simulated on top of world tick `tick`, changes only. */
+export const recordInputs = (
+  recorder: Recorder,
+  tick: number,
+  inputs: ReadonlyMap<string, PlayerInput>
+) => {
+  for (const [playerId, input] of inputs) {
+    const last = recorder.lastInputs.get(playerId);
+    if (last && sameInput(last, input)) continue;
+    const copy = { ...input };
+    recorder.lastInputs.set(playerId, copy);
+    recorder.file.inputs.push({ tick, playerId, input: copy });
+  }
+};
+
+export const recordTimeline = (recorder: Recorder, entry: ReplayTimelineEntry) => {
+  recorder.file.timeline.push(entry);
+  recorder.file.durationTicks = Math.max(recorder.file.durationTicks, entry.tick);
+};
+
+export const saveReplay = async (recorder: Recorder, dir: string, durationTicks: number) => {
+  recorder.file.durationTicks = durationTicks;
+  const stamp = recorder.file.recordedAt.replace(/[:.]/g, "-");
+  const fileName = `${recorder.file.roomCode}-${stamp}-${recorder.file.seed}.json`;
+  const target = path.join(dir, fileName);
+  await mkdir(dir, { recursive: true });
+  await writeFile(target, JSON.stringify(recorder.file));
+  return target;
+};
@@ -0,0 +1,16 @@
+import type { EmoteId } from "./protocol";
+
+/** Longest chat line a client may send, in characters. */
+export const MAX_CHAT_LENGTH = 120;
+
+/** The bubble text of every quick emote, in the order of the number keys that send them. */
+export const EMOTES: Record<EmoteId, string> = {
+  hello: "Hello!",
+  mine: "This is my circle!",
+  comeOn: "Come at me!",
+  sorry: "Oops, sorry",
+  nicePush: "Nice push!",
+  run: "Run!",
+  gg: "GG",
+  bye: "Bye!"
+};
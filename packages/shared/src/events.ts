@@ -0,0 +1,340 @@
+import type { ActiveEvent, IncomingEvent, RoomRules } from "./protocol";
+import { isOpenSpot } from "./maps";
+import { nextRandom, type Rng } from "./rng";
+import { CIRCLE_CLEARANCE, getCircleSnapshot, type StepResult, type WorldState } from "./simulation";
+
+export const SHIFT_DURATION_MS = 2000;
+// Tries at a SHIFT target clear of walls before the circle stays where it is.
+const SHIFT_ATTEMPTS = 8;
+export const PULSE_INTERVAL_MS = 18000;
+export const PULSE_DURATION_MS = 6000;
+export const RESIZE_INTERVAL_MS = 22000;
+export const ACCEL_INTERVAL_MS = 20000;
+export const SPLIT_INTERVAL_MS = 26000;
+export const SPLIT_DURATION_MS = 8000;
+export const INVERT_INTERVAL_MS = 30000;
+export const INVERT_DURATION_MS = 5000;
+export const WELL_INTERVAL_MS = 24000;
+export const WELL_DURATION_MS = 6000;
+export const FRENZY_INTERVAL_MS = 28000;
+export const FRENZY_DURATION_MS = 6000;
+// Quiet time after any event before the next may start, so two never land on the same tick.
+export const MIN_EVENT_GAP_MS = 1500;
+// Under the escalating policy every event shortens the following gap by this factor.
+const ESCALATION_FACTOR = 0.85;
+
+export type ActiveEventType = ActiveEvent["type"];
+type EventOf<T extends ActiveEventType> = Extract<ActiveEvent, { type: T }>;
+
+/**
+ * How the running event bends player physics. Derived from the event alone so
+ * client prediction can apply the same values as the server.
+ */
+export type ArenaModifiers = {
+  invertInput: boolean;
+  /** Acceleration towards the nearest zone centre; negative pushes away. */
+  wellStrength: number;
+  /** Multiplies `COLLISION_PUSH`. */
+  pushScale: number;
+  /** Multiplies the rules' dash cooldown for dashes started now. */
+  dashCooldownScale: number;
+};
+
+const NO_MODIFIERS: ArenaModifiers = {
+  invertInput: false,
+  wellStrength: 0,
+  pushScale: 1,
+  dashCooldownScale: 1
+};
+
+/**
+ * One kind of arena event. `plan` picks its parameters when it is announced,
+ * `trigger` applies it once the warning has run out, `update` runs every tick
+ * while it lasts and `cleanup` once when it ends. Instant events have a
+ * duration of 0 and only trigger.
+ */
+export type ArenaEventDefinition<T extends ActiveEventType> = {
+  /** Relative chance under the weighted-random and escalating policies. */
+  weight: number;
+  /** Period under the fixed-interval policy. */
+  intervalMs(rules: RoomRules): number;
+  durationMs(event: EventOf<T>): number;
+  plan(state: WorldState, rng: Rng): EventOf<T>;
+  trigger(state: WorldState, event: EventOf<T>): void;
+  /** What clients should draw while the event is incoming. */
+  telegraph?(state: WorldState, event: EventOf<T>): Pick<IncomingEvent, "target" | "radius">;
+  /** `progress` runs from 0 to 1 over the event's duration. */
+  update?(state: WorldState, event: EventOf<T>, progress: number, dt: number): void;
+  cleanup?(state: WorldState, event: EventOf<T>): void;
+  /** Physics changes that hold while the event runs. */
+  modifiers?(event: EventOf<T>): Partial<ArenaModifiers>;
+};
+
+type AnyArenaEvent = ArenaEventDefinition<ActiveEventType>;
+
+export type EventScheduler = {
+  active: { event: ActiveEvent; elapsedMs: number; durationMs: number } | null;
+  /** Announced but not started yet. */
+  pending: { event: ActiveEvent; startsAtMs: number } | null;
+  /** Earliest round time at which the next event may start. */
+  nextAtMs: number;
+  /** When each event is next due under the fixed-interval policy. */
+  dueMs: Record<ActiveEventType, number>;
+  fired: number;
+};
+
+/** Every event the arena knows. */
+export const ARENA_EVENTS: { [T in ActiveEventType]: ArenaEventDefinition<T> } = {
+  SHIFT: {
+    weight: 3,
+    intervalMs: (rules) => rules.shiftIntervalMs,
+    durationMs: (event) => event.durationMs,
+    plan: (state, rng) => {
+      const world = state.world;
+      const margin = Math.max(140, state.circle.baseRadius * 0.6);
+      for (let attempt = 0; attempt < SHIFT_ATTEMPTS; attempt += 1) {
+        const targetX = margin + nextRandom(rng) * (world.width - margin * 2);
+        const targetY = margin + nextRandom(rng) * (world.height - margin * 2);
+        if (isOpenSpot(state.map, { x: targetX, y: targetY }, CIRCLE_CLEARANCE)) {
+          return { type: "SHIFT", targetX, targetY, durationMs: SHIFT_DURATION_MS };
+        }
+      }
+      return { type: "SHIFT", targetX: state.circle.x, targetY: state.circle.y, durationMs: SHIFT_DURATION_MS };
+    },
+    trigger: (state, event) => {
+      state.circle.shift = {
+        active: true,
+        startX: state.circle.x,
+        startY: state.circle.y,
+        targetX: event.targetX,
+        targetY: event.targetY
+      };
+    },
+    telegraph: (state, event) => ({
+      target: { x: event.targetX, y: event.targetY },
+      radius: getCircleSnapshot(state.circle).radius
+    }),
+    update: (state, _event, progress) => {
+      const { circle } = state;
+      circle.x = circle.shift.startX + (circle.shift.targetX - circle.shift.startX) * progress;
+      circle.y = circle.shift.startY + (circle.shift.targetY - circle.shift.startY) * progress;
+    },
+    cleanup: (state) => {
+      state.circle.shift.active = false;
+    }
+  },
+  PULSE: {
+    weight: 2,
+    intervalMs: () => PULSE_INTERVAL_MS,
+    durationMs: (event) => event.durationMs,
+    plan: (state) => ({ type: "PULSE", durationMs: PULSE_DURATION_MS, amplitude: state.rules.pulseAmplitude }),
+    trigger: (state, event) => {
+      state.circle.pulse = { active: true, elapsed: 0, amplitude: event.amplitude };
+    },
+    update: (state, _event, _progress, dt) => {
+      state.circle.pulse.elapsed += dt;
+    },
+    cleanup: (state) => {
+      state.circle.pulse.active = false;
+      state.circle.pulse.elapsed = 0;
+    }
+  },
+  RESIZE: {
+    weight: 2,
+    intervalMs: () => RESIZE_INTERVAL_MS,
+    durationMs: () => 0,
+    plan: (state, rng) => {
+      const { circle } = state;
+      const targetRadius = circle.minRadius + nextRandom(rng) * (circle.maxRadius - circle.minRadius);
+      return { type: "RESIZE", targetRadius };
+    },
+    trigger: (state, event) => {
+      state.circle.baseRadius = event.targetRadius;
+    },
+    telegraph: (_state, event) => ({ radius: event.targetRadius })
+  },
+  ACCEL: {
+    weight: 1,
+    intervalMs: () => ACCEL_INTERVAL_MS,
+    durationMs: () => 0,
+    plan: () => ({ type: "ACCEL", speedBoost: 10, accelBoost: 0.6 }),
+    trigger: (state, event) => {
+      state.circle.driftSpeed += event.speedBoost;
+      state.circle.driftAccel += event.accelBoost;
+    }
+  },
+  SPLIT: {
+    weight: 2,
+    intervalMs: () => SPLIT_INTERVAL_MS,
+    durationMs: (event) => event.durationMs,
+    plan: (state, rng) => ({
+      type: "SPLIT",
+      durationMs: SPLIT_DURATION_MS,
+      angle: nextRandom(rng) * Math.PI,
+      offset: state.circle.baseRadius * 0.75,
+      radiusScale: 0.5
+    }),
+    trigger: (state, event) => {
+      state.circle.split = {
+        active: true,
+        angle: event.angle,
+        offset: event.offset,
+        radiusScale: event.radiusScale,
+        amount: 0
+      };
+    },
+    update: (state, _event, progress) => {
+      // Pull apart over the first quarter, hold, then merge back over the last.
+      state.circle.split.amount = Math.min(1, 4 * Math.min(progress, 1 - progress));
+    },
+    cleanup: (state) => {
+      state.circle.split.active = false;
+      state.circle.split.amount = 0;
+    }
+  },
+  INVERT: {
+    weight: 1,
+    intervalMs: () => INVERT_INTERVAL_MS,
+    durationMs: (event) => event.durationMs,
+    plan: () => ({ type: "INVERT", durationMs: INVERT_DURATION_MS }),
+    trigger: () => {},
+    modifiers: () => ({ invertInput: true })
+  },
+  WELL: {
+    weight: 2,
+    intervalMs: () => WELL_INTERVAL_MS,
+    durationMs: (event) => event.durationMs,
+    plan: (_state, rng) => ({
+      type: "WELL",
+      durationMs: WELL_DURATION_MS,
+      strength: nextRandom(rng) < 0.5 ? 520 : -420
+    }),
+    trigger: () => {},
+    modifiers: (event) => ({ wellStrength: event.strength })
+  },
+  FRENZY: {
+    weight: 2,
+    intervalMs: () => FRENZY_INTERVAL_MS,
+    durationMs: (event) => event.durationMs,
+    plan: () => ({ type: "FRENZY", durationMs: FRENZY_DURATION_MS, pushMultiplier: 1.8, cooldownMultiplier: 0.3 }),
+    trigger: () => {},
+    modifiers: (event) => ({ pushScale: event.pushMultiplier, dashCooldownScale: event.cooldownMultiplier })
+  }
+};
+
+const EVENT_TYPES = Object.keys(ARENA_EVENTS) as ActiveEventType[];
+
+const getDefinition = (type: ActiveEventType) => ARENA_EVENTS[type] as AnyArenaEvent;
+
+export const getArenaModifiers = (event: ActiveEvent | null | undefined): ArenaModifiers =>
+  event ? { ...NO_MODIFIERS, ...getDefinition(event.type).modifiers?.(event) } : NO_MODIFIERS;
+
+export const createEventScheduler = (rules: RoomRules): EventScheduler => {
+  const dueMs = {} as Record<ActiveEventType, number>;
+  for (const type of EVENT_TYPES) {
+    dueMs[type] = getDefinition(type).intervalMs(rules);
+  }
+  return {
+    active: null,
+    pending: null,
+    nextAtMs: rules.eventPolicy === "fixedInterval" ? 0 : rules.eventIntervalMs,
+    dueMs,
+    fired: 0
+  };
+};
+
+const nextGapMs = (state: WorldState, rng: Rng) => {
+  const { rules } = state;
+  if (rules.eventPolicy === "fixedInterval") return MIN_EVENT_GAP_MS;
+  const base =
+    rules.eventPolicy === "escalating"
+      ? rules.eventIntervalMs * ESCALATION_FACTOR ** state.events.fired
+      : rules.eventIntervalMs;
+  return Math.max(MIN_EVENT_GAP_MS, base * (0.5 + nextRandom(rng)));
+};
+
+/** When the next event may start, ignoring the warning lead time. */
+const nextStartMs = (state: WorldState) => {
+  const scheduler = state.events;
+  if (state.rules.eventPolicy !== "fixedInterval") return scheduler.nextAtMs;
+  return Math.max(scheduler.nextAtMs, Math.min(...EVENT_TYPES.map((type) => scheduler.dueMs[type])));
+};
+
+const pickEvent = (state: WorldState, rng: Rng, atMs: number): ActiveEventType | null => {
+  const scheduler = state.events;
+  if (state.rules.eventPolicy === "fixedInterval") {
+    // The most overdue event goes first; the rest wait for the arena to clear.
+    let due: ActiveEventType | null = null;
+    for (const type of EVENT_TYPES) {
+      if (scheduler.dueMs[type] > atMs) continue;
+      if (due === null || scheduler.dueMs[type] < scheduler.dueMs[due]) due = type;
+    }
+    return due;
+  }
+
+  let total = 0;
+  for (const type of EVENT_TYPES) total += getDefinition(type).weight;
+  let roll = nextRandom(rng) * total;
+  for (const type of EVENT_TYPES) {
+    roll -= getDefinition(type).weight;
+    if (roll < 0) return type;
+  }
+  return EVENT_TYPES[EVENT_TYPES.length - 1];
+};
+
+const finishEvent = (state: WorldState, rng: Rng) => {
+  const active = state.events.active;
+  if (!active) return;
+  getDefinition(active.event.type).cleanup?.(state, active.event);
+  state.events.active = null;
+  state.events.nextAtMs = state.elapsedMs + nextGapMs(state, rng);
+};
+
+/** Advances the running event. Called after the circle drifts and before bodies move. */
+export const updateArenaEvent = (state: WorldState, dt: number, rng: Rng) => {
+  const active = state.events.active;
+  if (!active) return;
+  active.elapsedMs += dt * 1000;
+  const progress = Math.min(1, active.elapsedMs / active.durationMs);
+  getDefinition(active.event.type).update?.(state, active.event, progress, dt);
+  if (progress >= 1) finishEvent(state, rng);
+};
+
+/**
+ * Announces the next event `eventLeadMs` before it may start and starts it
+ * once the warning has run out. Only one event is pending or active at a time.
+ */
+export const scheduleArenaEvents = (state: WorldState, rng: Rng, result: StepResult) => {
+  const scheduler = state.events;
+  if (scheduler.active) return;
+  const leadMs = state.rules.eventLeadMs;
+
+  if (!scheduler.pending) {
+    const startsAtMs = nextStartMs(state);
+    if (state.elapsedMs < startsAtMs - leadMs) return;
+    const type = pickEvent(state, rng, startsAtMs);
+    if (!type) return;
+    const definition = getDefinition(type);
+    const event = definition.plan(state, rng);
+    scheduler.dueMs[type] += definition.intervalMs(state.rules);
+    // Never cut the warning short, even when the gap before it was shorter.
+    scheduler.pending = { event, startsAtMs: Math.max(startsAtMs, state.elapsedMs + leadMs) };
+    if (leadMs > 0) {
+      result.incoming.push({
+        eventType: type,
+        etaMs: scheduler.pending.startsAtMs - state.elapsedMs,
+        ...definition.telegraph?.(state, event)
+      });
+    }
+  }
+
+  const pending = scheduler.pending;
+  if (state.elapsedMs < pending.startsAtMs) return;
+  const definition = getDefinition(pending.event.type);
+  scheduler.pending = null;
+  definition.trigger(state, pending.event);
+  scheduler.fired += 1;
+  scheduler.active = { event: pending.event, elapsedMs: 0, durationMs: definition.durationMs(pending.event) };
+  if (scheduler.active.durationMs <= 0) finishEvent(state, rng);
+  result.events.push(pending.event);
+};
@@ -0,0 +1,103 @@
+import type { ArenaMap, MapWall, WorldConfig } from "./protocol";
+import { PLAYER_RADIUS, type Body } from "./simulation";
+
+type Point = { x: number; y: number };
+
+/** The empty arena used when a room plays without a map. */
+export const createOpenMap = (world: WorldConfig): ArenaMap => ({
+  id: "open",
+  name: "Open arena",
+  width: world.width,
+  height: world.height,
+  walls: [],
+  bumpers: [],
+  slowZones: [],
+  spawns: []
+});
+
+const closestOnSegment = (wall: Extract<MapWall, { type: "segment" }>, point: Point) => {
+  const dx = wall.x2 - wall.x1;
+  const dy = wall.y2 - wall.y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - wall.x1) * dx + (point.y - wall.y1) * dy) / lengthSq));
+  return { x: wall.x1 + dx * t, y: wall.y1 + dy * t };
+};
+
+/** The point of the wall's core line nearest to `point`, and how far the wall reaches from it. */
+const wallCore = (wall: MapWall, point: Point) =>
+  wall.type === "circle"
+    ? { x: wall.x, y: wall.y, reach: wall.radius }
+    : { ...closestOnSegment(wall, point), reach: wall.thickness * 0.5 };
+
+const normalFrom = (from: Point, body: Point) => {
+  const dx = body.x - from.x;
+  const dy = body.y - from.y;
+  const dist = Math.hypot(dx, dy);
+  return dist === 0 ? { nx: 0, ny: -1, dist } : { nx: dx / dist, ny: dy / dist, dist };
+};
+
+/** Whether a disc of `clearance` around `point` lies inside the arena and clear of every wall. */
+export const isOpenSpot = (map: ArenaMap, point: Point, clearance: number) => {
+  if (
+    point.x < clearance ||
+    point.y < clearance ||
+    point.x > map.width - clearance ||
+    point.y > map.height - clearance
+  ) {
+    return false;
+  }
+  return map.walls.every((wall) => {
+    const core = wallCore(wall, point);
+    return Math.hypot(point.x - core.x, point.y - core.y) >= core.reach + clearance;
+  });
+};
+
+/** Acceleration multiplier at `point`; overlapping slow zones do not stack. */
+export const getSlowFactor = (map: ArenaMap, point: Point) => {
+  let factor = 1;
+  for (const zone of map.slowZones) {
+    if (Math.hypot(point.x - zone.x, point.y - zone.y) <= zone.radius) factor = Math.min(factor, zone.factor);
+  }
+  return factor;
+};
+
+// Moves the body `depth` along the normal and drops the velocity heading back in.
+const pushOut = (body: Body, nx: number, ny: number, depth: number) => {
+  body.x += nx * depth;
+  body.y += ny * depth;
+  const inward = body.vx * nx + body.vy * ny;
+  if (inward < 0) {
+    body.vx -= inward * nx;
+    body.vy -= inward * ny;
+  }
+};
+
+/**
+ * Keeps a body inside the arena and out of walls and bumpers, which also throw
+ * it back. Running it twice in a step is harmless: the second pass finds
+ * nothing left to fix.
+ */
+export const collideWithMap = (body: Body, map: ArenaMap) => {
+  for (const wall of map.walls) {
+    const core = wallCore(wall, body);
+    const { nx, ny, dist } = normalFrom(core, body);
+    const depth = core.reach + PLAYER_RADIUS - dist;
+    if (depth > 0) pushOut(body, nx, ny, depth);
+  }
+  for (const bumper of map.bumpers) {
+    const { nx, ny, dist } = normalFrom(bumper, body);
+    const depth = bumper.radius + PLAYER_RADIUS - dist;
+    if (depth <= 0) continue;
+    pushOut(body, nx, ny, depth);
+    const outward = body.vx * nx + body.vy * ny;
+    if (outward < bumper.bounce) {
+      body.vx += (bumper.bounce - outward) * nx;
+      body.vy += (bumper.bounce - outward) * ny;
+    }
+  }
+  body.x = Math.max(PLAYER_RADIUS, Math.min(map.width - PLAYER_RADIUS, body.x));
+  body.y = Math.max(PLAYER_RADIUS, Math.min(map.height - PLAYER_RADIUS, body.y));
+};
@@ -0,0 +1,137 @@
+import type { PickupSnapshot, PickupType, RoomRules } from "./protocol";
+import { isOpenSpot } from "./maps";
+import { nextRandom, type Rng } from "./rng";
+import { MAX_HP, PLAYER_RADIUS, getSafeZones, type Body, type StepResult, type WorldState } from "./simulation";
+
+export const PICKUP_RADIUS = 14;
+// Pickups nobody collects disappear after this long.
+export const PICKUP_LIFETIME_MS = 15000;
+// Pickups land within this share of a zone's radius, so some lie just outside it.
+const SPAWN_REACH = 1.15;
+
+export const SHIELD_DURATION = 12;
+export const HEAVY_DURATION = 8;
+export const HASTE_DURATION = 5;
+export const HEAL_AMOUNT = 35;
+/** Push dealt and taken by a HEAVY body, relative to a normal one. */
+export const HEAVY_PUSH_DEALT = 1.5;
+export const HEAVY_PUSH_TAKEN = 0.5;
+/** Multiplies acceleration and top speed while HASTE lasts. */
+export const HASTE_SPEED = 1.35;
+
+export type Pickup = PickupSnapshot & { expiresAtMs: number };
+
+export type PickupState = {
+  items: Pickup[];
+  nextId: number;
+  /** Round time of the next spawn attempt. */
+  nextAtMs: number;
+};
+
+/** One kind of pickup. `collect` applies it to whoever touched it. */
+export type PickupDefinition = {
+  /** Relative chance of being spawned. */
+  weight: number;
+  collect(body: Body): void;
+};
+
+/** Every pickup the arena knows. */
+export const PICKUPS: Record<PickupType, PickupDefinition> = {
+  SHIELD: {
+    weight: 3,
+    collect: (body) => {
+      body.shield = SHIELD_DURATION;
+    }
+  },
+  HEAVY: {
+    weight: 2,
+    collect: (body) => {
+      body.heavy = HEAVY_DURATION;
+    }
+  },
+  HEAL: {
+    weight: 3,
+    collect: (body) => {
+      body.hp = Math.min(MAX_HP, body.hp + HEAL_AMOUNT);
+    }
+  },
+  DASH: {
+    weight: 2,
+    collect: (body) => {
+      body.dashCooldown = 0;
+    }
+  },
+  HASTE: {
+    weight: 2,
+    collect: (body) => {
+      body.haste = HASTE_DURATION;
+    }
+  }
+};
+
+const PICKUP_TYPES = Object.keys(PICKUPS) as PickupType[];
+
+export const createPickupState = (rules: RoomRules): PickupState => ({
+  items: [],
+  nextId: 0,
+  nextAtMs: rules.pickupIntervalMs
+});
+
+export const getPickupSnapshots = (state: PickupState): PickupSnapshot[] =>
+  state.items.map(({ id, type, x, y }) => ({ id, type, x, y }));
+
+const pickType = (rng: Rng): PickupType => {
+  let total = 0;
+  for (const type of PICKUP_TYPES) total += PICKUPS[type].weight;
+  let roll = nextRandom(rng) * total;
+  for (const type of PICKUP_TYPES) {
+    roll -= PICKUPS[type].weight;
+    if (roll < 0) return type;
+  }
+  return PICKUP_TYPES[PICKUP_TYPES.length - 1];
+};
+
+const spawnPickup = (state: WorldState, rng: Rng) => {
+  const zones = getSafeZones(state.circle);
+  const zone = zones[Math.floor(nextRandom(rng) * zones.length)];
+  const angle = nextRandom(rng) * Math.PI * 2;
+  const distance = Math.sqrt(nextRandom(rng)) * zone.radius * SPAWN_REACH;
+  const { world } = state;
+  const type = pickType(rng);
+  const x = Math.max(PICKUP_RADIUS, Math.min(world.width - PICKUP_RADIUS, zone.x + Math.cos(angle) * distance));
+  const y = Math.max(PICKUP_RADIUS, Math.min(world.height - PICKUP_RADIUS, zone.y + Math.sin(angle) * distance));
+  // A spot inside a wall is simply skipped; the next interval tries again.
+  if (!isOpenSpot(state.map, { x, y }, PICKUP_RADIUS)) return;
+  state.pickups.items.push({
+    id: state.pickups.nextId,
+    type,
+    x,
+    y,
+    expiresAtMs: state.elapsedMs + PICKUP_LIFETIME_MS
+  });
+  state.pickups.nextId += 1;
+};
+
+/**
+ * Expires old pickups, hands out the ones living bodies touch and spawns a new
+ * one every `pickupIntervalMs` while there is room. Runs after bodies moved.
+ */
+export const updatePickups = (state: WorldState, rng: Rng, result: StepResult) => {
+  const pickups = state.pickups;
+  pickups.items = pickups.items.filter((pickup) => pickup.expiresAtMs > state.elapsedMs);
+
+  for (const body of state.bodies.values()) {
+    if (!body.alive) continue;
+    const index = pickups.items.findIndex(
+      (pickup) => Math.hypot(pickup.x - body.x, pickup.y - body.y) <= PLAYER_RADIUS + PICKUP_RADIUS
+    );
+    if (index < 0) continue;
+    const [pickup] = pickups.items.splice(index, 1);
+    PICKUPS[pickup.type].collect(body);
+    result.pickups.push({ playerId: body.id, pickup: pickup.type });
+  }
+
+  if (state.rules.maxPickups === 0 || state.elapsedMs < pickups.nextAtMs) return;
+  pickups.nextAtMs = state.elapsedMs + state.rules.pickupIntervalMs;
+  if (pickups.items.length < state.rules.maxPickups) spawnPickup(state, rng);
+};
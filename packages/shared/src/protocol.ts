@@ -1,28 +1,249 @@
 export type ClientMessage =
-  | { type: "join"; roomCode: string; nickname: string }
-  | { type: "input"; seq: number; input: PlayerInput };
+  | {
+      type: "join";
+      roomCode: string;
+      nickname: string;
+      spectate?: boolean;
+      /** Snapshot encodings the client can decode, in order of preference. */
+      encodings?: SnapshotEncoding[];
+      /** Creates the room when no room has this code; otherwise the join fails with `roomNotFound`. */
+      create?: boolean;
+      /** Only used when this join creates the room. */
+      rules?: { preset: RulesPreset; overrides?: RulesOverrides };
+      /** Only used when this join creates the room; rooms are private unless asked otherwise. */
+      visibility?: RoomVisibility;
+      /** Needed to enter a room that has one; sets it when this join creates a private room. */
+      password?: string;
+      /** From an earlier `welcome`; without a known one the player starts a new profile. */
+      profileToken?: string;
+    }
+  /** Joins the fullest open public room, or opens a new one with the classic rules. */
+  | {
+      type: "quickPlay";
+      nickname: string;
+      spectate?: boolean;
+      encodings?: SnapshotEncoding[];
+      profileToken?: string;
+    }
+  | { type: "input"; seq: number; input: PlayerInput }
+  | { type: "ready"; ready: boolean }
+  | { type: "start" }
+  | { type: "spectate"; spectate: boolean }
+  | { type: "ack"; tick: number }
+  /** Host only, in the lobby. */
+  | { type: "addBot"; difficulty: BotDifficulty }
+  | { type: "removeBot"; playerId: string }
+  /** In the lobby of a team room. Anyone may pick their own team; the host may move others. */
+  | { type: "setTeam"; team: number; playerId?: string }
+  /** Host only. Removes another player; a ban also keeps them from joining again. */
+  | { type: "kick"; playerId: string; ban?: boolean }
+  /** Host only, in any phase. A locked room turns away new players; resumes still work. */
+  | { type: "lockRoom"; locked: boolean }
+  /** A quick emote, shown to everyone as a bubble above the sender. */
+  | { type: "emote"; emote: EmoteId }
+  /** A line of text chat; only outside of running rounds. */
+  | { type: "chat"; text: string }
+  /** Asks for a `leaderboard`; works before joining too. */
+  | { type: "leaderboard" }
+  /** Asks for a `roomList`; works before joining too. */
+  | { type: "listRooms" }
+  /** Answered with a `pong`. `rttMs` reports the client's latest smoothed round trip for the roster. */
+  | { type: "ping"; clientTime: number; rttMs?: number }
+  /** Reattaches a new socket to the player that `welcome.resumeToken` was issued for. */
+  | { type: "resume"; token: string; encodings?: SnapshotEncoding[] };
 
 export type ServerMessage =
   | {
       type: "welcome";
       playerId: string;
       roomCode: string;
+      spectator: boolean;
+      snapshotEncoding: SnapshotEncoding;
       snapshotRate: number;
       tickRate: number;
-      world: WorldConfig;
+      rules: RoomRules;
+      visibility: RoomVisibility;
+      /** Send in a `resume` message after a dropped connection to keep this player's slot. */
+      resumeToken: string;
+      /** Keep and send with later joins so stats and rating follow the player. */
+      profileToken: string;
     }
   | {
       type: "snapshot";
       tick: number;
+      /** The server clock when this snapshot was taken; see `pong`. */
+      serverTime: number;
       players: PlayerSnapshot[];
-      circle: SafeCircleSnapshot;
+      /** Every safe zone; more than one while the arena is split. */
+      circles: SafeCircleSnapshot[];
+      /** The event running right now, if any. */
       event?: ActiveEvent;
+      /** Pickups lying in the arena, waiting to be collected. */
+      pickups: PickupSnapshot[];
       remainingMs: number;
     }
+  | {
+      type: "lobbyState";
+      phase: RoomPhase;
+      hostId: string | null;
+      players: LobbyPlayer[];
+      /** Time left in the countdown or intermission. */
+      countdownMs: number;
+      /** The match in progress, from its first round until everyone is back in the lobby. */
+      match: MatchSummary | null;
+      /** The arena of the current or most recent round. */
+      map: ArenaMap;
+      locked: boolean;
+    }
   | { type: "event"; event: ActiveEvent }
-  | { type: "death"; playerId: string; nickname: string }
-  | { type: "roundEnd"; winnerId: string | null; reason: "lastAlive" | "timeout" }
-  | { type: "error"; message: string };
+  | { type: "eventIncoming"; incoming: IncomingEvent }
+  | {
+      type: "death";
+      playerId: string;
+      nickname: string;
+      /** The opponent who touched them last, if anyone did. */
+      killerId: string | null;
+      killerNickname: string | null;
+      assistIds: string[];
+    }
+  | { type: "pickup"; playerId: string; pickup: PickupType }
+  | { type: "emote"; playerId: string; emote: EmoteId }
+  /** `text` has already been cleaned up and filtered by the server. */
+  | { type: "chat"; playerId: string; nickname: string; text: string }
+  | {
+      type: "roundEnd";
+      winnerId: string | null;
+      /** The winning team, 0 outside team play; `winnerId` is then its best player. */
+      winningTeam: number;
+      reason: RoundEndReason;
+      round: number;
+    }
+  /** Sent after the deciding round, right after its `roundEnd`. */
+  | {
+      type: "matchEnd";
+      championId: string | null;
+      /** The champion's team, 0 outside team play. */
+      championTeam: number;
+      standings: MatchStanding[];
+      rounds: RoundResult[];
+    }
+  /** Echoes a `ping`'s `clientTime` with the server clock, in milliseconds since the server started. */
+  | { type: "pong"; clientTime: number; serverTime: number }
+  /** Public rooms that can be joined right now, fullest first. */
+  | { type: "roomList"; rooms: RoomSummary[] }
+  | {
+      type: "leaderboard";
+      entries: LeaderboardEntry[];
+      /** The asking player's own standing, null until they have played a round. */
+      self: LeaderboardEntry | null;
+    }
+  | { type: "error"; code: ErrorCode; message: string };
+
+/** Machine-readable reason for an `error`; `message` is only for humans. */
+export type ErrorCode =
+  | "invalidMessage"
+  | "notJoined"
+  | "alreadyJoined"
+  | "notHost"
+  | "wrongPhase"
+  | "notReady"
+  | "tooManyStrikes"
+  | "resumeFailed"
+  | "botLimit"
+  | "invalidRules"
+  | "invalidTeam"
+  | "roomNotFound"
+  | "roomFull"
+  | "roomLocked"
+  | "wrongPassword"
+  | "nicknameTaken"
+  | "banned"
+  | "rateLimited"
+  /** Sent right before the server closes the socket. */
+  | "kicked"
+  | "roomClosed";
+
+/** `binary` is the delta-compressed format from `snapshotCodec`; `json` is the debug fallback. */
+export type SnapshotEncoding = "json" | "binary";
+
+export type BotDifficulty = "easy" | "normal" | "hard";
+
+export type EmoteId = "hello" | "mine" | "comeOn" | "sorry" | "nicePush" | "run" | "gg" | "bye";
+
+/** Public rooms are listed in `roomList` and filled by `quickPlay`; private ones need their code. */
+export type RoomVisibility = "public" | "private";
+
+export type RoomSummary = {
+  code: string;
+  /** Everyone taking part, bots included; spectators are not counted. */
+  players: number;
+  phase: RoomPhase;
+  preset: RulesPreset;
+  map: string;
+};
+
+/** `intermission` is the pause between two rounds of a match; `ended` follows the last one. */
+export type RoomPhase = "lobby" | "countdown" | "playing" | "intermission" | "ended";
+
+/** `aborted` rounds were ended by an admin and have no winner. */
+export type RoundEndReason = "lastAlive" | "timeout" | "aborted";
+
+export type RoundResult = {
+  /** 1-based. */
+  round: number;
+  winnerId: string | null;
+  winningTeam: number;
+  reason: RoundEndReason;
+};
+
+export type MatchStanding = {
+  playerId: string;
+  nickname: string;
+  team: number;
+  /** In team play every member of the winning team gets the win. */
+  wins: number;
+  /** Domination seconds summed over every round played. */
+  domination: number;
+};
+
+/** Lifetime stats of a player profile, ranked by rating. */
+export type LeaderboardEntry = {
+  /** 1-based. */
+  rank: number;
+  nickname: string;
+  rating: number;
+  wins: number;
+  roundsPlayed: number;
+  /** Domination seconds over every round played. */
+  domination: number;
+  knockouts: number;
+  longestSurvivalMs: number;
+};
+
+/** Best first: most wins, then most domination. */
+export type MatchSummary = {
+  /** Rounds played so far, counting the one running. */
+  round: number;
+  rounds: number;
+  winTarget: number;
+  standings: MatchStanding[];
+};
+
+export type LobbyPlayer = {
+  id: string;
+  nickname: string;
+  ready: boolean;
+  /** Watching only; has no body in the world. */
+  spectator: boolean;
+  /** False while the socket is gone and the server is holding the slot for a resume. */
+  connected: boolean;
+  /** Set for server-controlled players. */
+  bot: BotDifficulty | null;
+  /** 1-based team, 0 when the room plays free-for-all. */
+  team: number;
+  /** Round trip the player last reported, null for bots and until the first report. */
+  pingMs: number | null;
+};
 
 export type PlayerInput = {
   up: boolean;
@@ -32,15 +253,51 @@ export type PlayerInput = {
   dash: boolean;
 };
 
-export type PlayerSnapshot = {
+/**
+ * Seconds left on each timed pickup effect, 0 while inactive. A shield also
+ * ends early once it has soaked up a push.
+ */
+export type StatusEffects = {
+  shield: number;
+  heavy: number;
+  haste: number;
+};
+
+export type PlayerSnapshot = StatusEffects & {
   id: string;
   x: number;
   y: number;
+  vx: number;
+  vy: number;
   radius: number;
   nickname: string;
   hp: number;
   alive: boolean;
   dominationTime: number;
+  dashCooldown: number;
+  /** Last input `seq` the server has applied for this player. */
+  lastSeq: number;
+  /** Server-controlled player. */
+  bot: boolean;
+  /** 1-based team, 0 when the room plays free-for-all. */
+  team: number;
+  /** Opponents knocked out and assisted on this round. */
+  knockouts: number;
+  assists: number;
+};
+
+/**
+ * Collected on contact. SHIELD ignores the next push, HEAVY pushes harder and
+ * is pushed less, HEAL restores HP, DASH recharges the dash at once and HASTE
+ * briefly raises speed.
+ */
+export type PickupType = "SHIELD" | "HEAVY" | "HEAL" | "DASH" | "HASTE";
+
+export type PickupSnapshot = {
+  id: number;
+  type: PickupType;
+  x: number;
+  y: number;
 };
 
 export type SafeCircleSnapshot = {
@@ -55,9 +312,111 @@ export type WorldConfig = {
   height: number;
 };
 
+/** Static geometry bodies collide with: a solid disc or a thick line. */
+export type MapWall =
+  | { type: "circle"; x: number; y: number; radius: number }
+  | { type: "segment"; x1: number; y1: number; x2: number; y2: number; thickness: number };
+
+/** Bounces bodies away at `bounce` speed on contact. */
+export type MapBumper = { x: number; y: number; radius: number; bounce: number };
+
+/** Multiplies the acceleration of bodies inside by `factor`. */
+export type MapSlowZone = { x: number; y: number; radius: number; factor: number };
+
+/**
+ * An arena loaded from JSON. Bodies start on `spawns` when there are any and
+ * around the safe zone otherwise.
+ */
+export type ArenaMap = {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  walls: MapWall[];
+  bumpers: MapBumper[];
+  slowZones: MapSlowZone[];
+  spawns: Array<{ x: number; y: number }>;
+};
+
+export type RulesPreset = "classic" | "blitz" | "chaos" | "marathon";
+
+/**
+ * How arena events are scheduled. `fixedInterval` gives each event its own
+ * period; `weightedRandom` picks one by weight after a random gap;
+ * `escalating` does the same with gaps that shrink as the round goes on.
+ */
+export type EventPolicy = "fixedInterval" | "weightedRandom" | "escalating";
+
+/** How hard teammates bump each other: like anyone else, softly, or not at all. */
+export type FriendlyPush = "full" | "reduced" | "ghost";
+
+export type CircleRules = {
+  baseRadius: number;
+  minRadius: number;
+  /** Radius lost per second. */
+  shrinkRate: number;
+};
+
+/** Everything a room may tune about a round, fixed when the room is created. */
+export type RoomRules = {
+  /** The preset the overrides were applied on top of. */
+  preset: RulesPreset;
+  roundDurationMs: number;
+  shiftIntervalMs: number;
+  pulseAmplitude: number;
+  /** HP lost per second outside the safe zone. */
+  outsideHpDrain: number;
+  /** Seconds. */
+  dashCooldown: number;
+  eventPolicy: EventPolicy;
+  /** Mean gap between events under the random policies. */
+  eventIntervalMs: number;
+  /** How far ahead clients are warned about an event; 0 disables warnings. */
+  eventLeadMs: number;
+  /** Most rounds a match can last. */
+  matchRounds: number;
+  /** Round wins that take the match early. */
+  matchWinTarget: number;
+  /** Number of teams, or 0 for free-for-all. */
+  teams: number;
+  friendlyPush: FriendlyPush;
+  /** Time between pickup spawns. */
+  pickupIntervalMs: number;
+  /** Most pickups lying in the arena at once; 0 disables them. */
+  maxPickups: number;
+  /**
+   * A map id, `rotate` to cycle through every map that fits the circle,
+   * `random`, or `open` for the empty arena sized by `world`.
+   */
+  map: string;
+  /** Size of the `open` arena; maps bring their own. */
+  world: WorldConfig;
+  circle: CircleRules;
+};
+
+export type RulesOverrides = Partial<Omit<RoomRules, "preset" | "world" | "circle">> & {
+  world?: Partial<WorldConfig>;
+  circle?: Partial<CircleRules>;
+};
+
+/** Warning sent `etaMs` before an event starts, with its target where it has one. */
+export type IncomingEvent = {
+  eventType: ActiveEvent["type"];
+  etaMs: number;
+  /** Where the safe zone is heading, e.g. the SHIFT destination. */
+  target?: { x: number; y: number };
+  /** The radius the safe zone will have, e.g. the RESIZE target. */
+  radius?: number;
+};
+
 export type ActiveEvent =
   | { type: "SHIFT"; targetX: number; targetY: number; durationMs: number }
   | { type: "PULSE"; durationMs: number; amplitude: number }
   | { type: "RESIZE"; targetRadius: number }
-  | { type: "ACCEL"; speedBoost: number; accelBoost: number };
-};
+  | { type: "ACCEL"; speedBoost: number; accelBoost: number }
+  /** Two smaller zones `offset` either side of the centre along `angle`, each scaled by `radiusScale`. */
+  | { type: "SPLIT"; durationMs: number; angle: number; offset: number; radiusScale: number }
+  | { type: "INVERT"; durationMs: number }
+  /** Acceleration towards the nearest zone centre; negative pushes away from it. */
+  | { type: "WELL"; durationMs: number; strength: number }
+  | { type: "FRENZY"; durationMs: number; pushMultiplier: number; cooldownMultiplier: number };
@@ -0,0 +1,133 @@
+import type { ActiveEvent, ArenaMap, PlayerInput, RoomRules, RoundEndReason } from "./protocol";
+import { createRng, type Rng } from "./rng";
+import {
+  createBody,
+  createWorldState,
+  resetWorld,
+  stepWorld,
+  type StepResult,
+  type WorldState
+} from "./simulation";
+
+export const REPLAY_VERSION = 1;
+
+/**
+ * Input change for one player. `tick` is the world tick the input was read at,
+ * i.e. it drives step `tick + 1` and every later step until the next record.
+ * Only changes are stored, including a dash being released.
+ */
+export type ReplayInput = {
+  tick: number;
+  playerId: string;
+  input: PlayerInput;
+};
+
+export type ReplayTimelineEntry =
+  | { tick: number; type: "event"; event: ActiveEvent }
+  | { tick: number; type: "death"; playerId: string }
+  | { tick: number; type: "leave"; playerId: string }
+  | {
+      tick: number;
+      type: "roundEnd";
+      winnerId: string | null;
+      winningTeam?: number;
+      reason: RoundEndReason;
+      round: number;
+    };
+
+export type ReplayFile = {
+  version: typeof REPLAY_VERSION;
+  roomCode: string;
+  recordedAt: string;
+  tickRate: number;
+  rules: RoomRules;
+  /** The arena the round was played in. */
+  map: ArenaMap;
+  seed: number;
+  /** Bodies in spawn order; the order matters for the seeded spawn positions. */
+  players: Array<{ id: string; nickname: string; bot?: boolean; team?: number }>;
+  inputs: ReplayInput[];
+  timeline: ReplayTimelineEntry[];
+  durationTicks: number;
+};
+
+/** Re-simulation state for walking through a replay one tick at a time. */
+export type ReplayCursor = {
+  file: ReplayFile;
+  state: WorldState;
+  rng: Rng;
+  inputs: Map<string, PlayerInput>;
+  inputIndex: number;
+  timelineIndex: number;
+};
+
+export const parseReplay = (text: string): ReplayFile => {
+  const data = JSON.parse(text) as Partial<ReplayFile>;
+  // Any other version would re-simulate differently, so it is rejected rather than guessed at.
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(data.version)}`);
+  }
+  if (
+    !data.rules ||
+    !data.map ||
+    !Array.isArray(data.players) ||
+    !Array.isArray(data.inputs) ||
+    !Array.isArray(data.timeline)
+  ) {
+    throw new Error("Malformed replay file.");
+  }
+  return data as ReplayFile;
+};
+
+export const createReplayCursor = (file: ReplayFile): ReplayCursor => {
+  const state = createWorldState(file.rules, file.map);
+  const rng = createRng(file.seed);
+  for (const player of file.players) {
+    state.bodies.set(player.id, createBody(player.id, player.team));
+  }
+  resetWorld(state, rng);
+  return { file, state, rng, inputs: new Map(), inputIndex: 0, timelineIndex: 0 };
+};
+
+/**
+ * Runs the next simulation step. Returns the step result plus the recorded
+ * timeline entries that landed on the new tick, or null at the end.
+ */
+export const stepReplay = (cursor: ReplayCursor, dt = 1 / cursor.file.tickRate) => {
+  const { file, state } = cursor;
+  if (state.tick >= file.durationTicks) return null;
+
+  while (cursor.inputIndex < file.inputs.length && file.inputs[cursor.inputIndex].tick <= state.tick) {
+    const record = file.inputs[cursor.inputIndex];
+    cursor.inputs.set(record.playerId, record.input);
+    cursor.inputIndex += 1;
+  }
+
+  // Leaves are stamped with the tick they happened after, so apply them first.
+  const entries: ReplayTimelineEntry[] = [];
+  while (
+    cursor.timelineIndex < file.timeline.length &&
+    file.timeline[cursor.timelineIndex].tick <= state.tick
+  ) {
+    const entry = file.timeline[cursor.timelineIndex];
+    if (entry.type === "leave") {
+      state.bodies.delete(entry.playerId);
+      cursor.inputs.delete(entry.playerId);
+    }
+    entries.push(entry);
+    cursor.timelineIndex += 1;
+  }
+
+  const result: StepResult = stepWorld(state, cursor.inputs, dt, cursor.rng);
+
+  while (
+    cursor.timelineIndex < file.timeline.length &&
+    file.timeline[cursor.timelineIndex].tick <= state.tick &&
+    file.timeline[cursor.timelineIndex].type !== "leave"
+  ) {
+    entries.push(file.timeline[cursor.timelineIndex]);
+    cursor.timelineIndex += 1;
+  }
+
+  return { result, entries };
+};
@@ -0,0 +1,18 @@
+/**
+ * Seeded PRNG state (mulberry32). Plain data so it can live on the room and be
+ * copied into replays; every random decision in the simulation draws from it.
+ */
+export type Rng = {
+  seed: number;
+  state: number;
+};
+
+export const createRng = (seed: number): Rng => ({ seed: seed >>> 0, state: seed >>> 0 });
+
+export const nextRandom = (rng: Rng) => {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
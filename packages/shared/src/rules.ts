@@ -0,0 +1,174 @@
+import type { RoomRules, RulesOverrides, RulesPreset } from "./protocol";
+import type { ValidationResult } from "./validation";
+
+export const RULE_PRESETS: Record<RulesPreset, RoomRules> = {
+  classic: {
+    preset: "classic",
+    roundDurationMs: 180000,
+    shiftIntervalMs: 15000,
+    pulseAmplitude: 0.12,
+    outsideHpDrain: 12,
+    dashCooldown: 3,
+    eventPolicy: "fixedInterval",
+    eventIntervalMs: 10000,
+    eventLeadMs: 3000,
+    matchRounds: 5,
+    matchWinTarget: 3,
+    teams: 0,
+    friendlyPush: "reduced",
+    pickupIntervalMs: 10000,
+    maxPickups: 3,
+    map: "open",
+    world: { width: 1200, height: 800 },
+    circle: { baseRadius: 320, minRadius: 140, shrinkRate: 0.7 }
+  },
+  blitz: {
+    preset: "blitz",
+    roundDurationMs: 90000,
+    shiftIntervalMs: 8000,
+    pulseAmplitude: 0.12,
+    outsideHpDrain: 20,
+    dashCooldown: 2,
+    eventPolicy: "weightedRandom",
+    eventIntervalMs: 7000,
+    eventLeadMs: 2000,
+    matchRounds: 7,
+    matchWinTarget: 4,
+    teams: 0,
+    friendlyPush: "reduced",
+    pickupIntervalMs: 7000,
+    maxPickups: 3,
+    map: "open",
+    world: { width: 1000, height: 700 },
+    circle: { baseRadius: 260, minRadius: 110, shrinkRate: 1.2 }
+  },
+  chaos: {
+    preset: "chaos",
+    roundDurationMs: 150000,
+    shiftIntervalMs: 6000,
+    pulseAmplitude: 0.25,
+    outsideHpDrain: 14,
+    dashCooldown: 1.5,
+    eventPolicy: "escalating",
+    eventIntervalMs: 9000,
+    eventLeadMs: 1500,
+    matchRounds: 5,
+    matchWinTarget: 3,
+    teams: 0,
+    friendlyPush: "reduced",
+    pickupIntervalMs: 5000,
+    maxPickups: 5,
+    map: "random",
+    world: { width: 1200, height: 800 },
+    circle: { baseRadius: 320, minRadius: 120, shrinkRate: 0.9 }
+  },
+  marathon: {
+    preset: "marathon",
+    roundDurationMs: 420000,
+    shiftIntervalMs: 20000,
+    pulseAmplitude: 0.08,
+    outsideHpDrain: 8,
+    dashCooldown: 3.5,
+    eventPolicy: "fixedInterval",
+    eventIntervalMs: 15000,
+    eventLeadMs: 4000,
+    matchRounds: 3,
+    matchWinTarget: 2,
+    teams: 0,
+    friendlyPush: "reduced",
+    pickupIntervalMs: 14000,
+    maxPickups: 3,
+    map: "rotate",
+    world: { width: 1600, height: 1000 },
+    circle: { baseRadius: 400, minRadius: 160, shrinkRate: 0.45 }
+  }
+};
+
+type Range = { min: number; max: number };
+
+/** Map ids double as file names, so they are kept to a safe alphabet. */
+export const MAP_ID = /^[a-z0-9-]{1,32}$/;
+
+/** Inclusive limits for every tunable number; overrides outside them are refused. */
+export const RULE_BOUNDS = {
+  roundDurationMs: { min: 30000, max: 900000 },
+  shiftIntervalMs: { min: 3000, max: 120000 },
+  pulseAmplitude: { min: 0, max: 0.4 },
+  outsideHpDrain: { min: 1, max: 100 },
+  dashCooldown: { min: 0.5, max: 10 },
+  eventIntervalMs: { min: 2000, max: 120000 },
+  eventLeadMs: { min: 0, max: 10000 },
+  matchRounds: { min: 1, max: 15 },
+  matchWinTarget: { min: 1, max: 15 },
+  teams: { min: 0, max: 4 },
+  pickupIntervalMs: { min: 2000, max: 60000 },
+  maxPickups: { min: 0, max: 12 },
+  world: {
+    width: { min: 600, max: 3000 },
+    height: { min: 400, max: 2000 }
+  },
+  circle: {
+    baseRadius: { min: 80, max: 1000 },
+    minRadius: { min: 40, max: 1000 },
+    shrinkRate: { min: 0, max: 10 }
+  }
+} satisfies {
+  [K in Exclude<keyof RoomRules, "preset" | "eventPolicy" | "friendlyPush" | "map" | "world" | "circle">]: Range;
+} & {
+  world: Record<keyof RoomRules["world"], Range>;
+  circle: Record<keyof RoomRules["circle"], Range>;
+};
+
+const checkRange = (name: string, value: number, range: Range) =>
+  value < range.min || value > range.max ? `${name} must be between ${range.min} and ${range.max}` : null;
+
+/** Applies host overrides on top of a preset and checks the result against `RULE_BOUNDS`. */
+export const resolveRules = (
+  preset: RulesPreset,
+  overrides: RulesOverrides = {}
+): ValidationResult<RoomRules> => {
+  const base = RULE_PRESETS[preset];
+  const rules: RoomRules = {
+    ...base,
+    ...overrides,
+    preset,
+    world: { ...base.world, ...overrides.world },
+    circle: { ...base.circle, ...overrides.circle }
+  };
+
+  const errors = [
+    checkRange("roundDurationMs", rules.roundDurationMs, RULE_BOUNDS.roundDurationMs),
+    checkRange("shiftIntervalMs", rules.shiftIntervalMs, RULE_BOUNDS.shiftIntervalMs),
+    checkRange("pulseAmplitude", rules.pulseAmplitude, RULE_BOUNDS.pulseAmplitude),
+    checkRange("outsideHpDrain", rules.outsideHpDrain, RULE_BOUNDS.outsideHpDrain),
+    checkRange("dashCooldown", rules.dashCooldown, RULE_BOUNDS.dashCooldown),
+    checkRange("eventIntervalMs", rules.eventIntervalMs, RULE_BOUNDS.eventIntervalMs),
+    checkRange("eventLeadMs", rules.eventLeadMs, RULE_BOUNDS.eventLeadMs),
+    checkRange("matchRounds", rules.matchRounds, RULE_BOUNDS.matchRounds),
+    checkRange("matchWinTarget", rules.matchWinTarget, RULE_BOUNDS.matchWinTarget),
+    !Number.isInteger(rules.matchRounds) || !Number.isInteger(rules.matchWinTarget)
+      ? "matchRounds and matchWinTarget must be whole numbers"
+      : null,
+    rules.matchWinTarget > rules.matchRounds ? "matchWinTarget must not exceed matchRounds" : null,
+    checkRange("teams", rules.teams, RULE_BOUNDS.teams),
+    rules.teams === 1 || !Number.isInteger(rules.teams) ? "teams must be 0 or a whole number from 2" : null,
+    checkRange("pickupIntervalMs", rules.pickupIntervalMs, RULE_BOUNDS.pickupIntervalMs),
+    checkRange("maxPickups", rules.maxPickups, RULE_BOUNDS.maxPickups),
+    !Number.isInteger(rules.maxPickups) ? "maxPickups must be a whole number" : null,
+    !MAP_ID.test(rules.map) ? "map must be a map id of lowercase letters, digits and dashes" : null,
+    checkRange("world.width", rules.world.width, RULE_BOUNDS.world.width),
+    checkRange("world.height", rules.world.height, RULE_BOUNDS.world.height),
+    checkRange("circle.baseRadius", rules.circle.baseRadius, RULE_BOUNDS.circle.baseRadius),
+    checkRange("circle.minRadius", rules.circle.minRadius, RULE_BOUNDS.circle.minRadius),
+    checkRange("circle.shrinkRate", rules.circle.shrinkRate, RULE_BOUNDS.circle.shrinkRate),
+    rules.circle.minRadius > rules.circle.baseRadius
+      ? "circle.minRadius must not exceed circle.baseRadius"
+      : null,
+    rules.circle.baseRadius * 2 > Math.min(rules.world.width, rules.world.height)
+      ? "circle.baseRadius must fit inside the world"
+      : null
+  ];
+  const reason = errors.find((error) => error !== null);
+  if (reason) return { ok: false, code: "invalidRules", reason };
+  return { ok: true, value: rules };
+};
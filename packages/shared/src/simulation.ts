@@ -0,0 +1,594 @@
+import {
+  createEventScheduler,
+  getArenaModifiers,
+  scheduleArenaEvents,
+  updateArenaEvent,
+  type ArenaModifiers,
+  type EventScheduler
+} from "./events";
+import { collideWithMap, createOpenMap, getSlowFactor, isOpenSpot } from "./maps";
+import {
+  HASTE_SPEED,
+  HEAVY_PUSH_DEALT,
+  HEAVY_PUSH_TAKEN,
+  createPickupState,
+  updatePickups,
+  type PickupState
+} from "./pickups";
+import type {
+  ActiveEvent,
+  ArenaMap,
+  FriendlyPush,
+  IncomingEvent,
+  PickupType,
+  PlayerInput,
+  RoomRules,
+  SafeCircleSnapshot,
+  StatusEffects,
+  WorldConfig
+} from "./protocol";
+import { nextRandom, type Rng } from "./rng";
+
+export const PLAYER_RADIUS = 18;
+export const MAX_HP = 100;
+export const MAX_SPEED = 520;
+export const ACCEL = 1400;
+export const DAMPING = 3.2;
+export const DASH_SPEED = 720;
+export const COLLISION_PUSH = 520;
+// Share of the push teammates give each other under the "reduced" friendly-push rule.
+export const REDUCED_FRIENDLY_PUSH = 0.35;
+export const OUTSIDE_SPEED_MULT = 0.6;
+
+export const PULSE_FREQ = 5;
+export const SPAWN_SPREAD = 120;
+// Round starts place everyone on a ring at this fraction of the safe radius.
+export const SPAWN_RING = 0.6;
+const SPAWN_JITTER = 0.15;
+// Bodies beyond a map's spawn count stand this far beside an already taken spawn.
+const SPAWN_OVERFLOW_STEP = PLAYER_RADIUS * 2.5;
+// How far the circle's centre keeps from walls while it drifts.
+export const CIRCLE_CLEARANCE = PLAYER_RADIUS * 2;
+// Hits older than this are forgotten while their victim stands in a safe zone.
+export const KNOCKOUT_WINDOW_MS = 4000;
+
+export const IDLE_INPUT: PlayerInput = {
+  up: false,
+  down: false,
+  left: false,
+  right: false,
+  dash: false
+};
+
+/** Pickup effects (`StatusEffects`) tick down alongside `dashCooldown`. */
+export type Body = StatusEffects & {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  lastDir: { x: number; y: number };
+  dashCooldown: number;
+  hp: number;
+  alive: boolean;
+  dominationTime: number;
+  /** 1-based team, 0 in free-for-all. */
+  team: number;
+  knockouts: number;
+  assists: number;
+  /** Opponents who touched this body, with the round time of their latest hit. */
+  hitBy: Map<string, number>;
+};
+
+export type CircleState = {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  driftSpeed: number;
+  driftAccel: number;
+  driftTimer: number;
+  baseRadius: number;
+  minRadius: number;
+  maxRadius: number;
+  shrinkRate: number;
+  innerFactor: number;
+  /** Written by the SHIFT event while the circle slides to its target. */
+  shift: {
+    active: boolean;
+    startX: number;
+    startY: number;
+    targetX: number;
+    targetY: number;
+  };
+  /** Written by the PULSE event; read by `getCircleSnapshot`. */
+  pulse: {
+    active: boolean;
+    elapsed: number;
+    amplitude: number;
+  };
+  /** Written by the SPLIT event; `amount` eases from 0 to 1 and back. Read by `getSafeZones`. */
+  split: {
+    active: boolean;
+    angle: number;
+    offset: number;
+    radiusScale: number;
+    amount: number;
+  };
+};
+
+export type WorldState = {
+  rules: RoomRules;
+  /** The arena's size, taken from `map`. */
+  world: WorldConfig;
+  map: ArenaMap;
+  tick: number;
+  elapsedMs: number;
+  events: EventScheduler;
+  circle: CircleState;
+  bodies: Map<string, Body>;
+  pickups: PickupState;
+};
+
+/** A body that ran out of HP, credited to the opponent who touched it last. */
+export type Knockout = {
+  playerId: string;
+  killerId: string | null;
+  /** Other opponents whose hits still counted. */
+  assistIds: string[];
+};
+
+export type StepResult = {
+  events: ActiveEvent[];
+  /** Events announced this step, to be warned about before they start. */
+  incoming: IncomingEvent[];
+  deaths: Knockout[];
+  /** Pickups collected this step. */
+  pickups: Array<{ playerId: string; pickup: PickupType }>;
+};
+
+export const createCircle = (rules: RoomRules, world: WorldConfig = rules.world): CircleState => {
+  const { circle } = rules;
+  return {
+    x: world.width * 0.5,
+    y: world.height * 0.5,
+    vx: 1,
+    vy: 0,
+    driftSpeed: 8,
+    driftAccel: 1.2,
+    driftTimer: 2,
+    baseRadius: circle.baseRadius,
+    minRadius: circle.minRadius,
+    // RESIZE may grow the circle up to about half the world's short side.
+    maxRadius: Math.max(circle.baseRadius, Math.min(world.width, world.height) * 0.525),
+    shrinkRate: circle.shrinkRate,
+    innerFactor: 0.6,
+    shift: {
+      active: false,
+      startX: world.width * 0.5,
+      startY: world.height * 0.5,
+      targetX: world.width * 0.5,
+      targetY: world.height * 0.5
+    },
+    pulse: {
+      active: false,
+      elapsed: 0,
+      amplitude: rules.pulseAmplitude
+    },
+    split: {
+      active: false,
+      angle: 0,
+      offset: 0,
+      radiusScale: 1,
+      amount: 0
+    }
+  };
+};
+
+export const createWorldState = (rules: RoomRules, map: ArenaMap = createOpenMap(rules.world)): WorldState => ({
+  rules,
+  world: { width: map.width, height: map.height },
+  map,
+  tick: 0,
+  elapsedMs: 0,
+  events: createEventScheduler(rules),
+  circle: createCircle(rules, { width: map.width, height: map.height }),
+  bodies: new Map(),
+  pickups: createPickupState(rules)
+});
+
+export const createBody = (id: string, team = 0): Body => ({
+  id,
+  x: 0,
+  y: 0,
+  vx: 0,
+  vy: 0,
+  lastDir: { x: 0, y: -1 },
+  dashCooldown: 0,
+  hp: MAX_HP,
+  alive: true,
+  dominationTime: 0,
+  team,
+  shield: 0,
+  heavy: 0,
+  haste: 0,
+  knockouts: 0,
+  assists: 0,
+  hitBy: new Map()
+});
+
+const placeBody = (body: Body, x: number, y: number) => {
+  body.x = x;
+  body.y = y;
+  body.vx = 0;
+  body.vy = 0;
+  body.lastDir = { x: 0, y: -1 };
+  body.dashCooldown = 0;
+  body.hp = MAX_HP;
+  body.alive = true;
+  body.dominationTime = 0;
+  body.shield = 0;
+  body.heavy = 0;
+  body.haste = 0;
+  body.knockouts = 0;
+  body.assists = 0;
+  body.hitBy.clear();
+};
+
+/** Puts a body back to full health somewhere near the centre of the safe zone. */
+export const spawnBody = (state: WorldState, body: Body, rng: Rng) => {
+  placeBody(
+    body,
+    state.circle.x + (nextRandom(rng) - 0.5) * SPAWN_SPREAD,
+    state.circle.y + (nextRandom(rng) - 0.5) * SPAWN_SPREAD
+  );
+  collideWithMap(body, state.map);
+};
+
+/**
+ * Puts every body on the map's spawn points, starting at a random one. Maps
+ * without spawns spread bodies evenly around a ring inside the safe zone,
+ * starting at a random angle, so nobody begins the round already touching someone.
+ */
+export const spawnBodies = (state: WorldState, rng: Rng) => {
+  const bodies = Array.from(state.bodies.values());
+  const { spawns } = state.map;
+  if (spawns.length > 0) {
+    const first = Math.floor(nextRandom(rng) * spawns.length);
+    bodies.forEach((body, index) => {
+      const spawn = spawns[(first + index) % spawns.length];
+      placeBody(body, spawn.x + Math.floor(index / spawns.length) * SPAWN_OVERFLOW_STEP, spawn.y);
+      collideWithMap(body, state.map);
+    });
+    return;
+  }
+  const ring = state.circle.baseRadius * SPAWN_RING;
+  const start = nextRandom(rng) * Math.PI * 2;
+  const step = (Math.PI * 2) / Math.max(1, bodies.length);
+  bodies.forEach((body, index) => {
+    const angle = start + step * (index + (nextRandom(rng) - 0.5) * SPAWN_JITTER);
+    placeBody(body, state.circle.x + Math.cos(angle) * ring, state.circle.y + Math.sin(angle) * ring);
+    collideWithMap(body, state.map);
+  });
+};
+
+/** Restarts the round clock and arena while keeping the current bodies. */
+export const resetWorld = (state: WorldState, rng: Rng) => {
+  state.tick = 0;
+  state.elapsedMs = 0;
+  state.events = createEventScheduler(state.rules);
+  state.circle = createCircle(state.rules, state.world);
+  state.pickups = createPickupState(state.rules);
+  spawnBodies(state, rng);
+};
+
+const normalize = (x: number, y: number) => {
+  const len = Math.hypot(x, y);
+  if (len === 0) return { x: 0, y: 0 };
+  return { x: x / len, y: y / len };
+};
+
+const clampMagnitude = (vx: number, vy: number, max: number) => {
+  const len = Math.hypot(vx, vy);
+  if (len <= max) return { vx, vy };
+  const scale = max / len;
+  return { vx: vx * scale, vy: vy * scale };
+};
+
+export const getCircleSnapshot = (circle: CircleState): SafeCircleSnapshot => {
+  const pulse = circle.pulse.active
+    ? 1 + circle.pulse.amplitude * Math.sin(circle.pulse.elapsed * PULSE_FREQ)
+    : 1;
+  const radius = circle.baseRadius * pulse;
+  return {
+    x: circle.x,
+    y: circle.y,
+    radius,
+    innerRadius: radius * circle.innerFactor
+  };
+};
+
+/** The safe zones players are judged against: the circle itself, or two halves while split. */
+export const getSafeZones = (circle: CircleState): SafeCircleSnapshot[] => {
+  const main = getCircleSnapshot(circle);
+  const { split } = circle;
+  if (!split.active) return [main];
+  const scale = 1 - (1 - split.radiusScale) * split.amount;
+  const dx = Math.cos(split.angle) * split.offset * split.amount;
+  const dy = Math.sin(split.angle) * split.offset * split.amount;
+  return [-1, 1].map((side) => ({
+    x: main.x + dx * side,
+    y: main.y + dy * side,
+    radius: main.radius * scale,
+    innerRadius: main.innerRadius * scale
+  }));
+};
+
+export const getNearestZone = (point: { x: number; y: number }, zones: SafeCircleSnapshot[]) => {
+  let nearest = zones[0];
+  let nearestDist = Infinity;
+  for (const zone of zones) {
+    const dist = Math.hypot(point.x - zone.x, point.y - zone.y) - zone.radius;
+    if (dist < nearestDist) {
+      nearest = zone;
+      nearestDist = dist;
+    }
+  }
+  return nearest;
+};
+
+/** Outside every zone. */
+export const isOutside = (body: { x: number; y: number }, zones: SafeCircleSnapshot[]) =>
+  zones.every((zone) => Math.hypot(body.x - zone.x, body.y - zone.y) > zone.radius);
+
+export const applyInput = (
+  body: Body,
+  input: PlayerInput,
+  dt: number,
+  speedMultiplier: number,
+  rules: RoomRules,
+  modifiers: ArenaModifiers
+) => {
+  if (!body.alive) return;
+
+  const flip = modifiers.invertInput ? -1 : 1;
+  const dirX = ((input.right ? 1 : 0) - (input.left ? 1 : 0)) * flip;
+  const dirY = ((input.down ? 1 : 0) - (input.up ? 1 : 0)) * flip;
+  const dir = normalize(dirX, dirY);
+
+  if (dir.x !== 0 || dir.y !== 0) {
+    body.lastDir = dir;
+  }
+
+  body.vx += dir.x * ACCEL * speedMultiplier * dt;
+  body.vy += dir.y * ACCEL * speedMultiplier * dt;
+
+  if (input.dash && body.dashCooldown <= 0) {
+    body.vx += body.lastDir.x * DASH_SPEED;
+    body.vy += body.lastDir.y * DASH_SPEED;
+    body.dashCooldown = rules.dashCooldown * modifiers.dashCooldownScale;
+  }
+
+  const damping = Math.exp(-DAMPING * dt);
+  body.vx *= damping;
+  body.vy *= damping;
+
+  const clamped = clampMagnitude(body.vx, body.vy, MAX_SPEED * (body.haste > 0 ? HASTE_SPEED : 1));
+  body.vx = clamped.vx;
+  body.vy = clamped.vy;
+
+  body.x += body.vx * dt;
+  body.y += body.vy * dt;
+};
+
+/**
+ * Advances one body by a single step against the given safe zones and map.
+ * Shared by `stepWorld` and client-side prediction so both integrate identically.
+ */
+export const stepBody = (
+  body: Body,
+  input: PlayerInput,
+  dt: number,
+  zones: SafeCircleSnapshot[],
+  rules: RoomRules,
+  modifiers: ArenaModifiers,
+  map: ArenaMap
+) => {
+  body.dashCooldown = Math.max(0, body.dashCooldown - dt);
+  body.shield = Math.max(0, body.shield - dt);
+  body.heavy = Math.max(0, body.heavy - dt);
+  body.haste = Math.max(0, body.haste - dt);
+  if (body.alive && modifiers.wellStrength !== 0) {
+    const zone = getNearestZone(body, zones);
+    const toward = normalize(zone.x - body.x, zone.y - body.y);
+    body.vx += toward.x * modifiers.wellStrength * dt;
+    body.vy += toward.y * modifiers.wellStrength * dt;
+  }
+  const speedMultiplier =
+    (isOutside(body, zones) ? OUTSIDE_SPEED_MULT : 1) * (body.haste > 0 ? HASTE_SPEED : 1) * getSlowFactor(map, body);
+  applyInput(body, input, dt, speedMultiplier, rules, modifiers);
+  if (body.alive) collideWithMap(body, map);
+};
+
+/** Knocks `target` along (nx, ny) unless a shield soaks it up; HEAVY bodies hit harder and budge less. */
+const applyPush = (target: Body, source: Body, nx: number, ny: number, push: number) => {
+  if (target.shield > 0) {
+    target.shield = 0;
+    return;
+  }
+  const scale = (source.heavy > 0 ? HEAVY_PUSH_DEALT : 1) * (target.heavy > 0 ? HEAVY_PUSH_TAKEN : 1);
+  target.vx += nx * push * scale;
+  target.vy += ny * push * scale;
+};
+
+export const isTeammate = (a: { team: number }, b: { team: number }) => a.team !== 0 && a.team === b.team;
+
+/** `nowMs` is the round time, remembered on both bodies when opponents collide. */
+export const resolveCollisions = (
+  bodies: Body[],
+  pushScale = 1,
+  friendlyPush: FriendlyPush = "full",
+  nowMs = 0
+) => {
+  for (let i = 0; i < bodies.length; i += 1) {
+    const a = bodies[i];
+    if (!a.alive) continue;
+    for (let j = i + 1; j < bodies.length; j += 1) {
+      const b = bodies[j];
+      if (!b.alive) continue;
+      const friendly = isTeammate(a, b);
+      if (friendly && friendlyPush === "ghost") continue;
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const dist = Math.hypot(dx, dy);
+      const minDist = PLAYER_RADIUS * 2;
+      if (dist === 0 || dist >= minDist) continue;
+
+      const overlap = minDist - dist;
+      const nx = dx / dist;
+      const ny = dy / dist;
+
+      a.x -= nx * overlap * 0.5;
+      a.y -= ny * overlap * 0.5;
+      b.x += nx * overlap * 0.5;
+      b.y += ny * overlap * 0.5;
+
+      const push =
+        COLLISION_PUSH * pushScale * (friendly && friendlyPush === "reduced" ? REDUCED_FRIENDLY_PUSH : 1);
+      applyPush(a, b, -nx, -ny, push);
+      applyPush(b, a, nx, ny, push);
+      if (!friendly) {
+        a.hitBy.set(b.id, nowMs);
+        b.hitBy.set(a.id, nowMs);
+      }
+    }
+  }
+};
+
+export const updateCircle = (state: WorldState, dt: number, rng: Rng) => {
+  const circle = state.circle;
+  const world = state.world;
+  circle.driftTimer -= dt;
+  if (circle.driftTimer <= 0) {
+    const angle = nextRandom(rng) * Math.PI * 2;
+    circle.vx = Math.cos(angle);
+    circle.vy = Math.sin(angle);
+    circle.driftTimer = 2 + nextRandom(rng) * 2;
+  }
+  circle.driftSpeed += circle.driftAccel * dt;
+  circle.x += circle.vx * circle.driftSpeed * dt;
+  circle.y += circle.vy * circle.driftSpeed * dt;
+  if (!isOpenSpot(state.map, circle, CIRCLE_CLEARANCE)) {
+    // Turn back rather than let the centre drift into a wall.
+    circle.x -= circle.vx * circle.driftSpeed * dt;
+    circle.y -= circle.vy * circle.driftSpeed * dt;
+    circle.vx *= -1;
+    circle.vy *= -1;
+  }
+
+  const margin = circle.baseRadius + 20;
+  if (circle.x < margin || circle.x > world.width - margin) {
+    circle.vx *= -1;
+    circle.x = Math.max(margin, Math.min(world.width - margin, circle.x));
+  }
+  if (circle.y < margin || circle.y > world.height - margin) {
+    circle.vy *= -1;
+    circle.y = Math.max(margin, Math.min(world.height - margin, circle.y));
+  }
+
+  circle.baseRadius = Math.max(circle.minRadius, circle.baseRadius - circle.shrinkRate * dt);
+};
+
+const forgetOldHits = (body: Body, nowMs: number) => {
+  for (const [id, atMs] of body.hitBy) {
+    if (nowMs - atMs > KNOCKOUT_WINDOW_MS) body.hitBy.delete(id);
+  }
+};
+
+/**
+ * The latest hitter gets the knockout and everyone else still remembered an
+ * assist. Hits only expire while the victim is safe, so whoever pushed it out
+ * keeps the credit however long the drain takes.
+ */
+const creditKnockout = (state: WorldState, victim: Body): Knockout => {
+  let killer: Body | null = null;
+  let latestMs = -Infinity;
+  const hitters: Body[] = [];
+  for (const [id, atMs] of victim.hitBy) {
+    const hitter = state.bodies.get(id);
+    if (!hitter) continue;
+    hitters.push(hitter);
+    if (atMs > latestMs) {
+      latestMs = atMs;
+      killer = hitter;
+    }
+  }
+  victim.hitBy.clear();
+  if (killer) killer.knockouts += 1;
+  const assists = hitters.filter((hitter) => hitter !== killer);
+  for (const hitter of assists) hitter.assists += 1;
+  return { playerId: victim.id, killerId: killer?.id ?? null, assistIds: assists.map((hitter) => hitter.id) };
+};
+
+/**
+ * Advances the world by one fixed step. Pure apart from mutating `state` and
+ * `rng`: the same seed and input stream always yield the same match.
+ * Bodies without an entry in `inputs` are treated as idle.
+ */
+export const stepWorld = (
+  state: WorldState,
+  inputs: ReadonlyMap<string, PlayerInput>,
+  dt: number,
+  rng: Rng
+): StepResult => {
+  const result: StepResult = { events: [], incoming: [], deaths: [], pickups: [] };
+
+  state.tick += 1;
+  state.elapsedMs += dt * 1000;
+
+  updateCircle(state, dt, rng);
+  updateArenaEvent(state, dt, rng);
+
+  const currentZones = getSafeZones(state.circle);
+  const modifiers = getArenaModifiers(state.events.active?.event);
+
+  for (const body of state.bodies.values()) {
+    stepBody(body, inputs.get(body.id) ?? IDLE_INPUT, dt, currentZones, state.rules, modifiers, state.map);
+  }
+
+  resolveCollisions(
+    Array.from(state.bodies.values()),
+    modifiers.pushScale,
+    state.rules.friendlyPush,
+    state.elapsedMs
+  );
+  for (const body of state.bodies.values()) {
+    if (body.alive) collideWithMap(body, state.map);
+  }
+
+  const zones = getSafeZones(state.circle);
+
+  for (const body of state.bodies.values()) {
+    if (!body.alive) continue;
+    const outsideNow = isOutside(body, zones);
+    if (outsideNow) {
+      body.hp = Math.max(0, body.hp - state.rules.outsideHpDrain * dt);
+    }
+    if (body.hp <= 0) {
+      body.alive = false;
+      body.vx = 0;
+      body.vy = 0;
+      result.deaths.push(creditKnockout(state, body));
+      continue;
+    }
+    if (!outsideNow) forgetOldHits(body, state.elapsedMs);
+    if (zones.some((zone) => Math.hypot(body.x - zone.x, body.y - zone.y) <= zone.innerRadius)) {
+      body.dominationTime += dt;
+    }
+  }
+
+  updatePickups(state, rng, result);
+  scheduleArenaEvents(state, rng, result);
+
+  return result;
+};
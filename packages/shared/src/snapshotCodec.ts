@@ -0,0 +1,454 @@
+import type { PlayerSnapshot, SafeCircleSnapshot, ServerMessage } from "./protocol";
+
+export type SnapshotMessage = Extract<ServerMessage, { type: "snapshot" }>;
+
+/**
+ * Binary snapshot layout (little endian):
+ *
+ *   u8  kind (BINARY_SNAPSHOT)
+ *   u32 tick
+ *   u32 baseline tick, NO_BASELINE for a full snapshot
+ *   u32 remainingMs
+ *   f64 serverTime
+ *   u8  circle count, then f32 x4 (x, y, radius, innerRadius) each
+ *   u8  flags (FLAG_EXTRAS: JSON block follows the players)
+ *   u16 removed count, then u16 net id each
+ *   u16 entry count, then per entry:
+ *       u16 net id, u8 new (then id string), u32 field mask, masked fields
+ *   [u16 length + UTF-8 JSON of the remaining top-level snapshot fields]
+ *
+ * Players that did not change against the baseline are omitted entirely and
+ * strings (nickname) only travel when they differ from the baseline.
+ */
+export const BINARY_SNAPSHOT = 1;
+
+const NO_BASELINE = 0xffffffff;
+const FLAG_EXTRAS = 1;
+const MAX_HISTORY = 32;
+
+type FieldType = "u8" | "u16" | "i16" | "u32" | "i32" | "f32" | "bool" | "string";
+
+type FieldSpec = {
+  key: Exclude<keyof PlayerSnapshot, "id">;
+  type: FieldType;
+  /** Fixed-point scale for integer types, e.g. 4 stores quarter pixels. */
+  scale?: number;
+};
+
+const PLAYER_FIELDS: FieldSpec[] = [
+  { key: "x", type: "u16", scale: 4 },
+  { key: "y", type: "u16", scale: 4 },
+  { key: "vx", type: "i16", scale: 2 },
+  { key: "vy", type: "i16", scale: 2 },
+  { key: "radius", type: "u16", scale: 4 },
+  { key: "nickname", type: "string" },
+  { key: "hp", type: "u16", scale: 100 },
+  { key: "alive", type: "bool" },
+  { key: "dominationTime", type: "u32", scale: 1000 },
+  { key: "dashCooldown", type: "u16", scale: 1000 },
+  { key: "lastSeq", type: "i32" },
+  { key: "bot", type: "bool" },
+  { key: "team", type: "u8" },
+  { key: "shield", type: "u16", scale: 100 },
+  { key: "heavy", type: "u16", scale: 100 },
+  { key: "haste", type: "u16", scale: 100 },
+  { key: "knockouts", type: "u8" },
+  { key: "assists", type: "u8" }
+];
+
+const INT_RANGES: Record<string, [number, number]> = {
+  u8: [0, 0xff],
+  u16: [0, 0xffff],
+  i16: [-0x8000, 0x7fff],
+  u32: [0, 0xffffffff],
+  i32: [-0x80000000, 0x7fffffff]
+};
+
+type FieldValue = number | string | boolean;
+
+/** Per-connection encoder state on the server. */
+export type SnapshotEncoder = {
+  netIds: Map<string, number>;
+  nextNetId: number;
+  history: Map<number, SnapshotMessage>;
+  ackedTick: number;
+};
+
+/** Client-side decoder state, mirroring the encoder's history. */
+export type SnapshotDecoder = {
+  ids: Map<number, string>;
+  history: Map<number, SnapshotMessage>;
+};
+
+export const createSnapshotEncoder = (): SnapshotEncoder => ({
+  netIds: new Map(),
+  nextNetId: 0,
+  history: new Map(),
+  ackedTick: -1
+});
+
+export const createSnapshotDecoder = (): SnapshotDecoder => ({
+  ids: new Map(),
+  history: new Map()
+});
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const quantizeValue = (spec: FieldSpec, value: FieldValue): FieldValue => {
+  if (spec.type === "bool") return Boolean(value);
+  if (spec.type === "string") return String(value);
+  if (spec.type === "f32") return Math.fround(Number(value));
+  const scale = spec.scale ?? 1;
+  const [min, max] = INT_RANGES[spec.type];
+  return Math.max(min, Math.min(max, Math.round(Number(value) * scale))) / scale;
+};
+
+const getField = (player: PlayerSnapshot, spec: FieldSpec) => player[spec.key] as FieldValue;
+
+const quantizeSnapshot = (snapshot: SnapshotMessage): SnapshotMessage => ({
+  ...snapshot,
+  remainingMs: Math.max(0, Math.round(snapshot.remainingMs)),
+  circles: snapshot.circles.map((circle) => ({
+    x: Math.fround(circle.x),
+    y: Math.fround(circle.y),
+    radius: Math.fround(circle.radius),
+    innerRadius: Math.fround(circle.innerRadius)
+  })),
+  players: snapshot.players.map((player) => {
+    const copy = { ...player } as Record<string, FieldValue>;
+    for (const spec of PLAYER_FIELDS) {
+      copy[spec.key] = quantizeValue(spec, getField(player, spec));
+    }
+    return copy as PlayerSnapshot;
+  })
+});
+
+const getExtras = (snapshot: SnapshotMessage) => {
+  const {
+    type: _type,
+    tick: _tick,
+    serverTime: _serverTime,
+    players: _players,
+    circles: _circles,
+    remainingMs: _remaining,
+    ...extras
+  } = snapshot;
+  return extras;
+};
+
+const pruneHistory = (history: Map<number, SnapshotMessage>) => {
+  while (history.size > MAX_HISTORY) {
+    const oldest = history.keys().next().value;
+    if (oldest === undefined) return;
+    history.delete(oldest);
+  }
+};
+
+const createWriter = () => {
+  let bytes = new Uint8Array(256);
+  let view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const ensure = (size: number) => {
+    if (offset + size <= bytes.length) return;
+    const next = new Uint8Array(Math.max(bytes.length * 2, offset + size));
+    next.set(bytes);
+    bytes = next;
+    view = new DataView(bytes.buffer);
+  };
+
+  const writer = {
+    u8: (value: number) => {
+      ensure(1);
+      view.setUint8(offset, value);
+      offset += 1;
+    },
+    u16: (value: number) => {
+      ensure(2);
+      view.setUint16(offset, value, true);
+      offset += 2;
+    },
+    i16: (value: number) => {
+      ensure(2);
+      view.setInt16(offset, value, true);
+      offset += 2;
+    },
+    u32: (value: number) => {
+      ensure(4);
+      view.setUint32(offset, value, true);
+      offset += 4;
+    },
+    i32: (value: number) => {
+      ensure(4);
+      view.setInt32(offset, value, true);
+      offset += 4;
+    },
+    f32: (value: number) => {
+      ensure(4);
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    },
+    f64: (value: number) => {
+      ensure(8);
+      view.setFloat64(offset, value, true);
+      offset += 8;
+    },
+    string: (value: string, lengthBytes: 1 | 2 = 1) => {
+      const encoded = textEncoder.encode(value);
+      const max = lengthBytes === 1 ? 0xff : 0xffff;
+      const length = Math.min(encoded.length, max);
+      if (lengthBytes === 1) writer.u8(length);
+      else writer.u16(length);
+      ensure(length);
+      bytes.set(encoded.subarray(0, length), offset);
+      offset += length;
+    },
+    reserveU16: () => {
+      ensure(2);
+      const at = offset;
+      offset += 2;
+      return at;
+    },
+    patchU16: (at: number, value: number) => {
+      view.setUint16(at, value, true);
+    },
+    finish: () => bytes.slice(0, offset).buffer
+  };
+  return writer;
+};
+
+const createReader = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let offset = 0;
+
+  const reader = {
+    u8: () => {
+      const value = view.getUint8(offset);
+      offset += 1;
+      return value;
+    },
+    u16: () => {
+      const value = view.getUint16(offset, true);
+      offset += 2;
+      return value;
+    },
+    i16: () => {
+      const value = view.getInt16(offset, true);
+      offset += 2;
+      return value;
+    },
+    u32: () => {
+      const value = view.getUint32(offset, true);
+      offset += 4;
+      return value;
+    },
+    i32: () => {
+      const value = view.getInt32(offset, true);
+      offset += 4;
+      return value;
+    },
+    f32: () => {
+      const value = view.getFloat32(offset, true);
+      offset += 4;
+      return value;
+    },
+    f64: () => {
+      const value = view.getFloat64(offset, true);
+      offset += 8;
+      return value;
+    },
+    string: (lengthBytes: 1 | 2 = 1) => {
+      const length = lengthBytes === 1 ? reader.u8() : reader.u16();
+      const value = textDecoder.decode(bytes.subarray(offset, offset + length));
+      offset += length;
+      return value;
+    }
+  };
+  return reader;
+};
+
+type Writer = ReturnType<typeof createWriter>;
+type Reader = ReturnType<typeof createReader>;
+
+const writeField = (writer: Writer, spec: FieldSpec, value: FieldValue) => {
+  switch (spec.type) {
+    case "bool":
+      writer.u8(value ? 1 : 0);
+      return;
+    case "string":
+      writer.string(String(value));
+      return;
+    case "f32":
+      writer.f32(Number(value));
+      return;
+    default:
+      writer[spec.type](Math.round(Number(value) * (spec.scale ?? 1)));
+  }
+};
+
+const readField = (reader: Reader, spec: FieldSpec): FieldValue => {
+  switch (spec.type) {
+    case "bool":
+      return reader.u8() === 1;
+    case "string":
+      return reader.string();
+    case "f32":
+      return reader.f32();
+    default:
+      return reader[spec.type]() / (spec.scale ?? 1);
+  }
+};
+
+const writeCircles = (writer: Writer, circles: SafeCircleSnapshot[]) => {
+  writer.u8(circles.length);
+  for (const circle of circles) {
+    writer.f32(circle.x);
+    writer.f32(circle.y);
+    writer.f32(circle.radius);
+    writer.f32(circle.innerRadius);
+  }
+};
+
+const readCircles = (reader: Reader): SafeCircleSnapshot[] =>
+  Array.from({ length: reader.u8() }, () => ({
+    x: reader.f32(),
+    y: reader.f32(),
+    radius: reader.f32(),
+    innerRadius: reader.f32()
+  }));
+
+/**
+ * Encodes `snapshot` against the newest baseline the client acknowledged, or
+ * as a full snapshot when there is none. The quantized result is kept as a
+ * future baseline.
+ */
+export const encodeSnapshot = (encoder: SnapshotEncoder, snapshot: SnapshotMessage) => {
+  const current = quantizeSnapshot(snapshot);
+  const baseline = encoder.history.get(encoder.ackedTick) ?? null;
+  const baselinePlayers = new Map(baseline?.players.map((player) => [player.id, player]));
+
+  const writer = createWriter();
+  writer.u8(BINARY_SNAPSHOT);
+  writer.u32(current.tick);
+  writer.u32(baseline ? baseline.tick : NO_BASELINE);
+  writer.u32(current.remainingMs);
+  writer.f64(current.serverTime);
+  writeCircles(writer, current.circles);
+
+  const extras = JSON.stringify(getExtras(current));
+  const sendExtras = !baseline || extras !== JSON.stringify(getExtras(baseline));
+  writer.u8(sendExtras ? FLAG_EXTRAS : 0);
+
+  const currentIds = new Set(current.players.map((player) => player.id));
+  const removed = baseline?.players.filter((player) => !currentIds.has(player.id)) ?? [];
+  writer.u16(removed.length);
+  for (const player of removed) {
+    writer.u16(encoder.netIds.get(player.id) ?? 0);
+  }
+
+  const countAt = writer.reserveU16();
+  let count = 0;
+  for (const player of current.players) {
+    const base = baselinePlayers.get(player.id);
+    let mask = 0;
+    PLAYER_FIELDS.forEach((spec, index) => {
+      if (!base || getField(base, spec) !== getField(player, spec)) {
+        mask |= 1 << index;
+      }
+    });
+    if (base && mask === 0) continue;
+
+    let netId = encoder.netIds.get(player.id);
+    if (netId === undefined) {
+      netId = encoder.nextNetId;
+      encoder.nextNetId = (encoder.nextNetId + 1) & 0xffff;
+      encoder.netIds.set(player.id, netId);
+    }
+    writer.u16(netId);
+    writer.u8(base ? 0 : 1);
+    if (!base) writer.string(player.id);
+    writer.u32(mask >>> 0);
+    PLAYER_FIELDS.forEach((spec, index) => {
+      if (mask & (1 << index)) writeField(writer, spec, getField(player, spec));
+    });
+    count += 1;
+  }
+  writer.patchU16(countAt, count);
+
+  if (sendExtras) {
+    writer.string(extras, 2);
+  }
+
+  encoder.history.set(current.tick, current);
+  pruneHistory(encoder.history);
+  return writer.finish();
+};
+
+export const acknowledgeSnapshot = (encoder: SnapshotEncoder, tick: number) => {
+  if (tick <= encoder.ackedTick || !encoder.history.has(tick)) return;
+  encoder.ackedTick = tick;
+  for (const key of encoder.history.keys()) {
+    if (key < tick) encoder.history.delete(key);
+  }
+};
+
+/** Returns null when the referenced baseline is unknown; the server then falls back to a full snapshot. */
+export const decodeSnapshot = (
+  decoder: SnapshotDecoder,
+  buffer: ArrayBuffer
+): SnapshotMessage | null => {
+  const reader = createReader(buffer);
+  if (reader.u8() !== BINARY_SNAPSHOT) return null;
+  const tick = reader.u32();
+  const baselineTick = reader.u32();
+  const remainingMs = reader.u32();
+  const serverTime = reader.f64();
+  const circles = readCircles(reader);
+  const flags = reader.u8();
+
+  const baseline = baselineTick === NO_BASELINE ? null : decoder.history.get(baselineTick);
+  if (baseline === undefined) return null;
+
+  const removed = new Set<string>();
+  const removedCount = reader.u16();
+  for (let i = 0; i < removedCount; i += 1) {
+    const id = decoder.ids.get(reader.u16());
+    if (id) removed.add(id);
+  }
+
+  const players = new Map<string, PlayerSnapshot>();
+  for (const player of baseline?.players ?? []) {
+    if (!removed.has(player.id)) players.set(player.id, { ...player });
+  }
+
+  const count = reader.u16();
+  for (let i = 0; i < count; i += 1) {
+    const netId = reader.u16();
+    const isNew = reader.u8() === 1;
+    if (isNew) decoder.ids.set(netId, reader.string());
+    const id = decoder.ids.get(netId) ?? "";
+    const mask = reader.u32();
+    const entry = (players.get(id) ?? { id }) as Record<string, FieldValue>;
+    PLAYER_FIELDS.forEach((spec, index) => {
+      if (mask & (1 << index)) entry[spec.key] = readField(reader, spec);
+    });
+    players.set(id, entry as PlayerSnapshot);
+  }
+
+  const extras = flags & FLAG_EXTRAS ? JSON.parse(reader.string(2)) : baseline ? getExtras(baseline) : {};
+
+  const snapshot: SnapshotMessage = {
+    ...extras,
+    type: "snapshot",
+    tick,
+    serverTime,
+    players: Array.from(players.values()),
+    circles,
+    remainingMs
+  };
+  decoder.history.set(tick, snapshot);
+  pruneHistory(decoder.history);
+  return snapshot;
+};
@@ -0,0 +1,526 @@
+import type {
+  ActiveEvent,
+  ArenaMap,
+  ClientMessage,
+  EmoteId,
+  ErrorCode,
+  CircleRules,
+  IncomingEvent,
+  LeaderboardEntry,
+  LobbyPlayer,
+  MapBumper,
+  MapSlowZone,
+  MapWall,
+  MatchStanding,
+  MatchSummary,
+  PlayerInput,
+  PickupSnapshot,
+  PlayerSnapshot,
+  RoomRules,
+  RoomSummary,
+  RoundResult,
+  RulesOverrides,
+  SafeCircleSnapshot,
+  ServerMessage,
+  WorldConfig
+} from "./protocol";
+import { EMOTES, MAX_CHAT_LENGTH } from "./chat";
+
+/**
+ * A runtime check returning null when `value` is valid, or a short reason.
+ * The phantom `__type` ties each check to the protocol type it validates, so
+ * a schema that drifts from `protocol.ts` stops compiling.
+ */
+export type Check<T> = ((value: unknown, path: string) => string | null) & { __type?: T };
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: ErrorCode; reason: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const string = (options: { min?: number; max: number }): Check<string> => (value, path) => {
+  if (typeof value !== "string") return `${path} must be a string`;
+  if (value.length < (options.min ?? 0)) return `${path} is too short`;
+  if (value.length > options.max) return `${path} is too long`;
+  return null;
+};
+
+export const number =
+  (options: { integer?: boolean; min?: number; max?: number } = {}): Check<number> =>
+  (value, path) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) return `${path} must be a number`;
+    if (options.integer && !Number.isInteger(value)) return `${path} must be an integer`;
+    if (options.min !== undefined && value < options.min) return `${path} is below ${options.min}`;
+    if (options.max !== undefined && value > options.max) return `${path} is above ${options.max}`;
+    return null;
+  };
+
+export const boolean: Check<boolean> = (value, path) =>
+  typeof value === "boolean" ? null : `${path} must be a boolean`;
+
+export const oneOf =
+  <L extends string>(values: readonly L[]): Check<L> =>
+  (value, path) =>
+    typeof value === "string" && (values as readonly string[]).includes(value)
+      ? null
+      : `${path} must be one of ${values.join(", ")}`;
+
+export const optional =
+  <T>(check: Check<T>): Check<T | undefined> =>
+  (value, path) =>
+    value === undefined ? null : check(value, path);
+
+export const nullable =
+  <T>(check: Check<T>): Check<T | null> =>
+  (value, path) =>
+    value === null ? null : check(value, path);
+
+export const array =
+  <T>(check: Check<T>, max: number): Check<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) return `${path} must be an array`;
+    if (value.length > max) return `${path} has too many items`;
+    for (let i = 0; i < value.length; i += 1) {
+      const error = check(value[i], `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  };
+
+/** Exact object shape: unknown keys are rejected, not silently carried along. */
+export const object =
+  <T>(shape: { [K in keyof T]-?: Check<T[K]> }): Check<T> =>
+  (value, path) => {
+    if (!isRecord(value)) return `${path} must be an object`;
+    for (const key of Object.keys(value)) {
+      if (!Object.prototype.hasOwnProperty.call(shape, key)) return `${path}.${key} is not allowed`;
+    }
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const error = shape[key](value[key], `${path}.${key}`);
+      if (error) return error;
+    }
+    return null;
+  };
+
+type Variants<U extends { type: string }> = {
+  [K in U["type"]]: { [P in keyof Omit<Extract<U, { type: K }>, "type">]-?: Check<Extract<U, { type: K }>[P]> };
+};
+
+/** Discriminated union keyed by `type`; each variant's other fields are checked exactly. */
+export const variants =
+  <U extends { type: string }>(shapes: Variants<U>): Check<U> =>
+  (value, path) => {
+    if (!isRecord(value) || typeof value.type !== "string") return `${path}.type is missing`;
+    if (!Object.prototype.hasOwnProperty.call(shapes, value.type)) {
+      return `${path}.type "${value.type}" is unknown`;
+    }
+    const shape = shapes[value.type as U["type"]] as Record<string, Check<unknown>>;
+    return object<Record<string, unknown>>({ ...shape, type: oneOf([value.type]) })(value, path);
+  };
+
+const MAX_COORD = 1e6;
+const coord = number({ min: -MAX_COORD, max: MAX_COORD });
+const id = string({ min: 1, max: 32 });
+
+export const playerInputSchema = object<PlayerInput>({
+  up: boolean,
+  down: boolean,
+  left: boolean,
+  right: boolean,
+  dash: boolean
+});
+
+const snapshotEncodingSchema = oneOf(["json", "binary"] as const);
+const rulesPresetSchema = oneOf(["classic", "blitz", "chaos", "marathon"] as const);
+const visibilitySchema = oneOf(["public", "private"] as const);
+const roomPhaseSchema = oneOf(["lobby", "countdown", "playing", "intermission", "ended"] as const);
+const eventPolicySchema = oneOf(["fixedInterval", "weightedRandom", "escalating"] as const);
+const friendlyPushSchema = oneOf(["full", "reduced", "ghost"] as const);
+const team = number({ integer: true, min: 0, max: 16 });
+const emoteSchema = oneOf(Object.keys(EMOTES) as EmoteId[]);
+
+// Shape only; `resolveRules` checks the values against their bounds.
+const rulesOverridesSchema = object<RulesOverrides>({
+  roundDurationMs: optional(number()),
+  shiftIntervalMs: optional(number()),
+  pulseAmplitude: optional(number()),
+  outsideHpDrain: optional(number()),
+  dashCooldown: optional(number()),
+  eventPolicy: optional(eventPolicySchema),
+  eventIntervalMs: optional(number()),
+  eventLeadMs: optional(number()),
+  matchRounds: optional(number()),
+  matchWinTarget: optional(number()),
+  teams: optional(number()),
+  friendlyPush: optional(friendlyPushSchema),
+  pickupIntervalMs: optional(number()),
+  maxPickups: optional(number()),
+  map: optional(string({ min: 1, max: 32 })),
+  world: optional(object<Partial<WorldConfig>>({ width: optional(number()), height: optional(number()) })),
+  circle: optional(
+    object<Partial<CircleRules>>({
+      baseRadius: optional(number()),
+      minRadius: optional(number()),
+      shrinkRate: optional(number())
+    })
+  )
+});
+const botDifficultySchema = oneOf(["easy", "normal", "hard"] as const);
+
+export const clientMessageSchema = variants<ClientMessage>({
+  join: {
+    roomCode: string({ min: 1, max: 32 }),
+    nickname: string({ max: 32 }),
+    spectate: optional(boolean),
+    encodings: optional(array(snapshotEncodingSchema, 4)),
+    create: optional(boolean),
+    rules: optional(object({ preset: rulesPresetSchema, overrides: optional(rulesOverridesSchema) })),
+    visibility: optional(visibilitySchema),
+    password: optional(string({ max: 64 })),
+    profileToken: optional(string({ min: 1, max: 64 }))
+  },
+  quickPlay: {
+    nickname: string({ max: 32 }),
+    spectate: optional(boolean),
+    encodings: optional(array(snapshotEncodingSchema, 4)),
+    profileToken: optional(string({ min: 1, max: 64 }))
+  },
+  input: {
+    seq: number({ integer: true, min: 0, max: 0x7fffffff }),
+    input: playerInputSchema
+  },
+  ready: { ready: boolean },
+  start: {},
+  spectate: { spectate: boolean },
+  ack: { tick: number({ integer: true, min: 0 }) },
+  addBot: { difficulty: botDifficultySchema },
+  removeBot: { playerId: id },
+  setTeam: { team, playerId: optional(id) },
+  kick: { playerId: id, ban: optional(boolean) },
+  lockRoom: { locked: boolean },
+  emote: { emote: emoteSchema },
+  chat: { text: string({ min: 1, max: MAX_CHAT_LENGTH }) },
+  leaderboard: {},
+  listRooms: {},
+  ping: { clientTime: number({ min: 0 }), rttMs: optional(number({ min: 0, max: 60000 })) },
+  resume: {
+    token: string({ min: 1, max: 64 }),
+    encodings: optional(array(snapshotEncodingSchema, 4))
+  }
+});
+
+const worldSchema = object<WorldConfig>({
+  width: number({ min: 1, max: MAX_COORD }),
+  height: number({ min: 1, max: MAX_COORD })
+});
+
+const roomRulesSchema = object<RoomRules>({
+  preset: rulesPresetSchema,
+  roundDurationMs: number({ min: 0 }),
+  shiftIntervalMs: number({ min: 0 }),
+  pulseAmplitude: number({ min: 0 }),
+  outsideHpDrain: number({ min: 0 }),
+  dashCooldown: number({ min: 0 }),
+  eventPolicy: eventPolicySchema,
+  eventIntervalMs: number({ min: 0 }),
+  eventLeadMs: number({ min: 0 }),
+  matchRounds: number({ integer: true, min: 1 }),
+  matchWinTarget: number({ integer: true, min: 1 }),
+  teams: team,
+  friendlyPush: friendlyPushSchema,
+  pickupIntervalMs: number({ min: 0 }),
+  maxPickups: number({ integer: true, min: 0 }),
+  map: string({ min: 1, max: 32 }),
+  world: worldSchema,
+  circle: object<CircleRules>({
+    baseRadius: number({ min: 0 }),
+    minRadius: number({ min: 0 }),
+    shrinkRate: number({ min: 0 })
+  })
+});
+
+const circleSchema = object<SafeCircleSnapshot>({
+  x: coord,
+  y: coord,
+  radius: number({ min: 0 }),
+  innerRadius: number({ min: 0 })
+});
+
+const playerSnapshotSchema = object<PlayerSnapshot>({
+  id,
+  x: coord,
+  y: coord,
+  vx: number(),
+  vy: number(),
+  radius: number({ min: 0 }),
+  nickname: string({ max: 32 }),
+  hp: number(),
+  alive: boolean,
+  dominationTime: number({ min: 0 }),
+  dashCooldown: number({ min: 0 }),
+  lastSeq: number({ integer: true }),
+  bot: boolean,
+  team,
+  shield: number({ min: 0 }),
+  heavy: number({ min: 0 }),
+  haste: number({ min: 0 }),
+  knockouts: number({ integer: true, min: 0 }),
+  assists: number({ integer: true, min: 0 })
+});
+
+const pickupTypeSchema = oneOf(["SHIELD", "HEAVY", "HEAL", "DASH", "HASTE"] as const);
+
+const pickupSnapshotSchema = object<PickupSnapshot>({
+  id: number({ integer: true, min: 0 }),
+  type: pickupTypeSchema,
+  x: coord,
+  y: coord
+});
+
+const point = object<{ x: number; y: number }>({ x: coord, y: coord });
+const extent = number({ min: 1, max: 5000 });
+
+export const arenaMapSchema = object<ArenaMap>({
+  id: string({ min: 1, max: 32 }),
+  name: string({ min: 1, max: 48 }),
+  width: extent,
+  height: extent,
+  walls: array(
+    variants<MapWall>({
+      circle: { x: coord, y: coord, radius: extent },
+      segment: { x1: coord, y1: coord, x2: coord, y2: coord, thickness: extent }
+    }),
+    128
+  ),
+  bumpers: array(
+    object<MapBumper>({ x: coord, y: coord, radius: extent, bounce: number({ min: 0, max: 2000 }) }),
+    64
+  ),
+  slowZones: array(
+    object<MapSlowZone>({ x: coord, y: coord, radius: extent, factor: number({ min: 0, max: 1 }) }),
+    64
+  ),
+  spawns: array(point, 32)
+});
+
+const lobbyPlayerSchema = object<LobbyPlayer>({
+  id,
+  nickname: string({ max: 32 }),
+  ready: boolean,
+  spectator: boolean,
+  connected: boolean,
+  bot: nullable(botDifficultySchema),
+  team,
+  pingMs: nullable(number({ min: 0 }))
+});
+
+export const activeEventSchema = variants<ActiveEvent>({
+  SHIFT: { targetX: coord, targetY: coord, durationMs: number({ min: 0 }) },
+  PULSE: { durationMs: number({ min: 0 }), amplitude: number() },
+  RESIZE: { targetRadius: number({ min: 0 }) },
+  ACCEL: { speedBoost: number(), accelBoost: number() },
+  SPLIT: {
+    durationMs: number({ min: 0 }),
+    angle: number(),
+    offset: number({ min: 0 }),
+    radiusScale: number({ min: 0, max: 1 })
+  },
+  INVERT: { durationMs: number({ min: 0 }) },
+  WELL: { durationMs: number({ min: 0 }), strength: number() },
+  FRENZY: {
+    durationMs: number({ min: 0 }),
+    pushMultiplier: number({ min: 0 }),
+    cooldownMultiplier: number({ min: 0 })
+  }
+});
+
+const EVENT_TYPES: Record<ActiveEvent["type"], true> = {
+  SHIFT: true,
+  PULSE: true,
+  RESIZE: true,
+  ACCEL: true,
+  SPLIT: true,
+  INVERT: true,
+  WELL: true,
+  FRENZY: true
+};
+
+const incomingEventSchema = object<IncomingEvent>({
+  eventType: oneOf(Object.keys(EVENT_TYPES) as Array<ActiveEvent["type"]>),
+  etaMs: number({ min: 0 }),
+  target: optional(point),
+  radius: optional(number({ min: 0 }))
+});
+
+const roundEndReasonSchema = oneOf(["lastAlive", "timeout", "aborted"] as const);
+
+const roundResultSchema = object<RoundResult>({
+  round: number({ integer: true, min: 1 }),
+  winnerId: nullable(id),
+  winningTeam: team,
+  reason: roundEndReasonSchema
+});
+
+const matchStandingSchema = object<MatchStanding>({
+  playerId: id,
+  nickname: string({ max: 32 }),
+  team,
+  wins: number({ integer: true, min: 0 }),
+  domination: number({ min: 0 })
+});
+
+const roomSummarySchema = object<RoomSummary>({
+  code: string({ min: 1, max: 32 }),
+  players: number({ integer: true, min: 0 }),
+  phase: roomPhaseSchema,
+  preset: rulesPresetSchema,
+  map: string({ min: 1, max: 32 })
+});
+
+const leaderboardEntrySchema = object<LeaderboardEntry>({
+  rank: number({ integer: true, min: 1 }),
+  nickname: string({ max: 32 }),
+  rating: number(),
+  wins: number({ integer: true, min: 0 }),
+  roundsPlayed: number({ integer: true, min: 0 }),
+  domination: number({ min: 0 }),
+  knockouts: number({ integer: true, min: 0 }),
+  longestSurvivalMs: number({ min: 0 })
+});
+
+const matchSummarySchema = object<MatchSummary>({
+  round: number({ integer: true, min: 0 }),
+  rounds: number({ integer: true, min: 1 }),
+  winTarget: number({ integer: true, min: 1 }),
+  standings: array(matchStandingSchema, 256)
+});
+
+// A record rather than a list so adding an ErrorCode without listing it here fails to compile.
+const ERROR_CODES: Record<ErrorCode, true> = {
+  invalidMessage: true,
+  notJoined: true,
+  alreadyJoined: true,
+  notHost: true,
+  wrongPhase: true,
+  notReady: true,
+  tooManyStrikes: true,
+  resumeFailed: true,
+  botLimit: true,
+  invalidRules: true,
+  invalidTeam: true,
+  roomNotFound: true,
+  roomFull: true,
+  roomLocked: true,
+  wrongPassword: true,
+  nicknameTaken: true,
+  banned: true,
+  rateLimited: true,
+  kicked: true,
+  roomClosed: true
+};
+
+const errorCodeSchema = oneOf(Object.keys(ERROR_CODES) as ErrorCode[]);
+
+export const serverMessageSchema = variants<ServerMessage>({
+  welcome: {
+    playerId: id,
+    roomCode: string({ max: 32 }),
+    spectator: boolean,
+    snapshotEncoding: snapshotEncodingSchema,
+    snapshotRate: number({ min: 0 }),
+    tickRate: number({ min: 1 }),
+    rules: roomRulesSchema,
+    visibility: visibilitySchema,
+    resumeToken: string({ min: 1, max: 64 }),
+    profileToken: string({ min: 1, max: 64 })
+  },
+  snapshot: {
+    tick: number({ integer: true, min: 0 }),
+    serverTime: number({ min: 0 }),
+    players: array(playerSnapshotSchema, 256),
+    circles: array(circleSchema, 8),
+    event: optional(activeEventSchema),
+    pickups: array(pickupSnapshotSchema, 64),
+    remainingMs: number({ min: 0 })
+  },
+  lobbyState: {
+    phase: roomPhaseSchema,
+    hostId: nullable(id),
+    players: array(lobbyPlayerSchema, 256),
+    countdownMs: number({ min: 0 }),
+    match: nullable(matchSummarySchema),
+    map: arenaMapSchema,
+    locked: boolean
+  },
+  event: { event: activeEventSchema },
+  eventIncoming: { incoming: incomingEventSchema },
+  death: {
+    playerId: id,
+    nickname: string({ max: 32 }),
+    killerId: nullable(id),
+    killerNickname: nullable(string({ max: 32 })),
+    assistIds: array(id, 256)
+  },
+  pickup: { playerId: id, pickup: pickupTypeSchema },
+  emote: { playerId: id, emote: emoteSchema },
+  chat: { playerId: id, nickname: string({ max: 32 }), text: string({ min: 1, max: MAX_CHAT_LENGTH }) },
+  roundEnd: {
+    winnerId: nullable(id),
+    winningTeam: team,
+    reason: roundEndReasonSchema,
+    round: number({ integer: true, min: 1 })
+  },
+  matchEnd: {
+    championId: nullable(id),
+    championTeam: team,
+    standings: array(matchStandingSchema, 256),
+    rounds: array(roundResultSchema, 64)
+  },
+  pong: { clientTime: number({ min: 0 }), serverTime: number({ min: 0 }) },
+  roomList: { rooms: array(roomSummarySchema, 100) },
+  leaderboard: {
+    entries: array(leaderboardEntrySchema, 100),
+    self: nullable(leaderboardEntrySchema)
+  },
+  error: { code: errorCodeSchema, message: string({ max: 200 }) }
+});
+
+const validate = <T>(check: Check<T>, data: unknown, path: string): ValidationResult<T> => {
+  const reason = check(data, path);
+  if (reason) return { ok: false, code: "invalidMessage", reason };
+  return { ok: true, value: data as T };
+};
+
+/** Parses and validates a raw client frame. */
+export const parseClientMessage = (raw: string): ValidationResult<ClientMessage> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, code: "invalidMessage", reason: "message is not valid JSON" };
+  }
+  return validate(clientMessageSchema, data, "message");
+};
+
+/** Parses a map file; the caller still checks the id against the file name. */
+export const parseArenaMap = (raw: string): ValidationResult<ArenaMap> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, code: "invalidMessage", reason: "map is not valid JSON" };
+  }
+  return validate(arenaMapSchema, data, "map");
+};
+
+export const parseServerMessage = (raw: string): ValidationResult<ServerMessage> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, code: "invalidMessage", reason: "message is not valid JSON" };
+  }
+  return validate(serverMessageSchema, data, "message");
+};